@@ -0,0 +1,46 @@
+import { readFileSync } from 'node:fs';
+import { diffRouteManifests, formatManifestDiff } from '../manifest/diff';
+import type { RouteManifest } from '../manifest/manifest';
+
+export interface CliOutput {
+  readonly stdout: { write(text: string): unknown };
+  readonly stderr: { write(text: string): unknown };
+}
+
+const usage = 'Usage: express-type-safe-routes diff <previous-manifest.json> <next-manifest.json> [--json]\n';
+
+/**
+ * Runs the command line interface and returns the exit code: 0 when there are
+ * no breaking changes, 1 when there are, and 2 for usage or input errors.
+ */
+export function runCli(args: readonly string[], output: CliOutput = process): number {
+  const [command, ...rest] = args;
+  const json = rest.includes('--json');
+  const files = rest.filter((arg) => arg !== '--json');
+
+  if (command !== 'diff' || files.length !== 2 || files.some((file) => file.startsWith('-'))) {
+    output.stderr.write(usage);
+    return 2;
+  }
+
+  try {
+    const [previous, next] = files.map(readManifest) as [RouteManifest, RouteManifest];
+    const diff = diffRouteManifests(previous, next);
+
+    output.stdout.write(`${json ? JSON.stringify(diff, null, 2) : formatManifestDiff(diff)}\n`);
+    return diff.breaking ? 1 : 0;
+  } catch (error) {
+    output.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 2;
+  }
+}
+
+function readManifest(file: string): RouteManifest {
+  const manifest = JSON.parse(readFileSync(file, 'utf8')) as Partial<RouteManifest>;
+
+  if (manifest.version !== 1 || !Array.isArray(manifest.routes)) {
+    throw new Error(`${file} is not a route manifest created by createRouteManifest()`);
+  }
+
+  return manifest as RouteManifest;
+}
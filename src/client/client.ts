@@ -0,0 +1,239 @@
+import type { Jsonify, RouteDefinition, ResponseContentOf, ResponseOutputOf, ResponseSchemas } from '../types';
+import { HTTP_METHODS } from '../router/methods';
+import type { HttpMethod } from '../router/methods';
+import type { InferRouteMap, RegisteredRoute, RouteMap, TypedRouter } from '../router/TypedRouter';
+import type { InferBodyInput, InferQueryInput, InferResponses } from '../validation/inference';
+import type { RouteParamsInput } from '../router/pathParams';
+import { flattenRoutes } from '../router/registry';
+import { ResponseValidationError } from '../response/validation';
+import { resolveResponseSchema } from '../response/schema';
+import { outputSchema } from '../response/output';
+import { reviveJson, toJsonValue } from '../response/wire';
+import { headerInput } from '../validation/headers';
+import { compareVersions, createHeaderVersionReader, normalizeVersion } from '../versioning/versioning';
+import type { ResponseValidationViolation } from '../response/validation';
+
+export interface ClientOptions {
+  readonly baseUrl: string;
+  readonly fetch?: typeof fetch;
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly validateWith?: TypedRouter<any>;
+}
+
+type ParamsOption<TParams> = {} extends TParams ? { readonly params?: TParams } : { readonly params: TParams };
+
+type QueryOption<TQuery> = unknown extends TQuery
+  ? { readonly query?: Readonly<Record<string, unknown>> }
+  : {} extends TQuery
+    ? { readonly query?: TQuery }
+    : { readonly query: TQuery };
+
+type BodyOption<TBody> = unknown extends TBody ? { readonly body?: unknown } : { readonly body: TBody };
+
+export type ClientRequestOptions<
+  TRoute extends RouteDefinition,
+  TPath extends string = string
+> = ParamsOption<RouteParamsInput<TPath, TRoute>> &
+  QueryOption<InferQueryInput<TRoute>> &
+  BodyOption<InferBodyInput<TRoute>> & {
+    readonly headers?: Readonly<Record<string, string>>;
+    readonly contentType?: 'application/json' | 'application/x-www-form-urlencoded';
+  };
+
+// Binary responses are read as a Blob, everything else as the JSON or text form of the schema's output
+type ClientBodyOf<T> = ResponseContentOf<T> extends 'binary' ? Blob : Jsonify<ResponseOutputOf<T>>;
+
+export type ClientResponse<TResponses> = TResponses extends ResponseSchemas
+  ? [keyof TResponses] extends [never]
+    ? { readonly status: number; readonly body: unknown; readonly headers: Headers }
+    : {
+        [S in keyof TResponses & number]: {
+          readonly status: S;
+          readonly body: ClientBodyOf<TResponses[S]>;
+          readonly headers: Headers;
+        };
+      }[keyof TResponses & number]
+  : { readonly status: number; readonly body: unknown; readonly headers: Headers };
+
+type RouteAt<TPaths, TPath extends keyof TPaths> = Extract<TPaths[TPath], RouteDefinition>;
+
+export type ClientMethod<TPaths> = <TPath extends keyof TPaths & string>(
+  path: TPath,
+  ...args: {} extends ClientRequestOptions<RouteAt<TPaths, TPath>, TPath>
+    ? [options?: ClientRequestOptions<RouteAt<TPaths, TPath>, TPath>]
+    : [options: ClientRequestOptions<RouteAt<TPaths, TPath>, TPath>]
+) => Promise<ClientResponse<InferResponses<RouteAt<TPaths, TPath>>>>;
+
+export type TypedClient<TRoutes extends RouteMap> = {
+  readonly [M in keyof TRoutes & HttpMethod]: ClientMethod<Exclude<TRoutes[M], undefined>>;
+};
+
+interface ClientRequest {
+  readonly params?: Readonly<Record<string, unknown>>;
+  readonly query?: Readonly<Record<string, unknown>>;
+  readonly body?: unknown;
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly contentType?: string;
+}
+
+export function createClient<TRouter extends TypedRouter<any>>(
+  options: ClientOptions
+): TypedClient<InferRouteMap<TRouter>> {
+  const fetchFn = options.fetch ?? globalThis.fetch;
+  const registered = options.validateWith ? flattenRoutes(options.validateWith) : [];
+
+  const send = (method: HttpMethod) => async (path: string, request: ClientRequest = {}) => {
+    const headers: Record<string, string> = { ...options.headers, ...request.headers };
+    const init: RequestInit = { method: method.toUpperCase(), headers };
+
+    if (request.body !== undefined && request.contentType === 'application/x-www-form-urlencoded') {
+      const form = new URLSearchParams();
+      Object.entries(request.body as Record<string, unknown>).forEach(([key, value]) => appendQuery(form, key, value));
+      headers['content-type'] = request.contentType;
+      init.body = form.toString();
+    } else if (request.body !== undefined) {
+      headers['content-type'] = 'application/json';
+      init.body = JSON.stringify(request.body);
+    }
+
+    const response = await fetchFn(buildUrl(options.baseUrl, path, request.params, request.query), init);
+    let body = await readBody(response);
+
+    const exact = registered.filter((route) => route.method === method && route.path === path);
+    const candidates = exact.length > 0 ? exact : registered.filter((route) => route.method === 'all' && route.path === path);
+    const definition = selectVersion(candidates, options.baseUrl, headers)?.definition;
+    const responses = (definition?.schemas.response ?? {}) as ResponseSchemas;
+
+    if (Object.keys(responses).length > 0) {
+      const checked = checkResponse(responses, response.status, body, response.headers);
+
+      if ('reason' in checked) {
+        throw new ResponseValidationError({ method: method.toUpperCase(), path, status: response.status, ...checked });
+      }
+      body = checked.body;
+    }
+
+    return { status: response.status, body, headers: response.headers };
+  };
+
+  return Object.fromEntries(HTTP_METHODS.map((method) => [method, send(method)])) as unknown as TypedClient<
+    InferRouteMap<TRouter>
+  >;
+}
+
+/**
+ * The route among the versions registered for a method and path that the
+ * request selects, read as the router's versioning strategy reads it: from
+ * a `/v2` segment ending the base URL, a header or the `Accept` media type.
+ * Requests that name no version select the default or latest version.
+ */
+function selectVersion(
+  candidates: readonly RegisteredRoute[],
+  baseUrl: string,
+  headers: Readonly<Record<string, string>>
+): RegisteredRoute | undefined {
+  const versioning = candidates.find((route) => route.versioning)?.versioning;
+  if (!versioning) return candidates[0];
+
+  const requested =
+    versioning.strategy === 'path'
+      ? pathVersion(baseUrl)
+      : createHeaderVersionReader(versioning)((name) => headerValue(headers, name));
+  const versions = candidates.flatMap((route) => (route.version ? [route.version] : [])).sort(compareVersions);
+  const version =
+    requested ?? (versioning.defaultVersion ? normalizeVersion(versioning.defaultVersion) : versions.at(-1));
+
+  return candidates.find((route) => route.version === version);
+}
+
+function pathVersion(baseUrl: string): string | undefined {
+  const segment = /\/v([^/?#]+)\/*$/i.exec(new URL(baseUrl, 'http://localhost').pathname)?.[1];
+  return segment ? normalizeVersion(segment) : undefined;
+}
+
+function headerValue(headers: Readonly<Record<string, string>>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return Object.entries(headers).find(([key]) => key.toLowerCase() === lower)?.[1];
+}
+
+export type ResponseCheck =
+  | { readonly body: unknown }
+  | Pick<ResponseValidationViolation, 'reason' | 'issues'>;
+
+// Checks a received response against the schema declared for its status
+export function checkResponse(
+  responses: ResponseSchemas,
+  status: number,
+  body: unknown,
+  headers: Headers
+): ResponseCheck {
+  const entry = responses[status];
+  if (!entry) return { reason: 'undeclared-status', issues: [] };
+
+  const schema = resolveResponseSchema(entry);
+  // A transforming schema describes what the handler sends, so bodies are checked against its output side
+  const checked = schema.body && outputSchema(schema.body);
+  // JSON carries dates and bigints as strings, so they are revived before the check and written back after it
+  const json = schema.content === 'json';
+  const result = checked?.safeParse(json ? reviveJson(checked, body) : body);
+  if (result && !result.success) return { reason: 'invalid-body', issues: result.error.issues };
+
+  if (schema.headers) {
+    const parsed = schema.headers.safeParse(headerInput(schema.headers, Object.fromEntries(headers.entries())));
+    if (!parsed.success) return { reason: 'invalid-headers', issues: parsed.error.issues };
+  }
+
+  return { body: result ? (json ? toJsonValue(result.data) : result.data) : body };
+}
+
+export function buildUrl(
+  baseUrl: string,
+  path: string,
+  params: Readonly<Record<string, unknown>> = {},
+  query: Readonly<Record<string, unknown>> = {}
+): string {
+  const resolved = path.replace(/\/:(\w+)(\([^)]*\))?(\?)?/g, (_match, name: string, _pattern, optional) => {
+    const value = params[name];
+
+    if (value === undefined) {
+      if (optional) return '';
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+
+    return `/${encodeURIComponent(String(value))}`;
+  });
+
+  const search = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => appendQuery(search, key, value));
+  const queryString = search.toString();
+
+  return `${baseUrl.replace(/\/+$/, '')}${resolved}${queryString ? `?${queryString}` : ''}`;
+}
+
+function appendQuery(search: URLSearchParams, key: string, value: unknown): void {
+  if (value === undefined) return;
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => appendQuery(search, key, item));
+  } else if (value instanceof Date) {
+    search.append(key, value.toISOString());
+  } else if (typeof value === 'object' && value !== null) {
+    Object.entries(value).forEach(([nested, item]) => appendQuery(search, `${key}[${nested}]`, item));
+  } else {
+    search.append(key, String(value));
+  }
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const contentType = response.headers.get('content-type') ?? '';
+
+  if (contentType && !/json|xml|^text\//.test(contentType)) {
+    const blob = await response.blob();
+    return blob.size > 0 ? blob : undefined;
+  }
+
+  const text = await response.text();
+  if (!text) return undefined;
+
+  return contentType.includes('json') ? JSON.parse(text) : text;
+}
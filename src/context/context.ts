@@ -0,0 +1,31 @@
+import type { Request, Response } from 'express';
+import type { UnionToIntersection } from '../types';
+
+export type ContextStage = 'beforeValidation' | 'afterValidation';
+
+export interface ContextMiddleware<TContext extends object = {}> {
+  readonly name?: string;
+  readonly stage?: ContextStage;
+  readonly provide: (req: Request, res: Response) => TContext | Promise<TContext>;
+}
+
+type ProvidedBy<TMiddleware> = TMiddleware extends ContextMiddleware<infer TContext> ? TContext : never;
+
+type ProvidedByAll<TMiddleware extends readonly ContextMiddleware<any>[]> = TMiddleware extends readonly [
+  infer THead,
+  ...infer TRest extends readonly ContextMiddleware<any>[],
+]
+  ? ProvidedBy<THead> & ProvidedByAll<TRest>
+  : UnionToIntersection<ProvidedBy<TMiddleware[number]>>;
+
+export type MiddlewareContext<TMiddleware extends readonly ContextMiddleware<any>[]> = [
+  TMiddleware[number],
+] extends [never]
+  ? unknown
+  : { ctx: ProvidedByAll<TMiddleware> };
+
+export function defineMiddleware<TContext extends object>(
+  middleware: ContextMiddleware<TContext>
+): ContextMiddleware<TContext> {
+  return middleware;
+}
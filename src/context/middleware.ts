@@ -0,0 +1,20 @@
+import type { RequestHandler } from 'express';
+import type { ContextMiddleware } from './context';
+
+/**
+ * Merges what the middleware provides into `req.ctx`. A middleware that sends
+ * a response itself ends the chain.
+ */
+export function createContextMiddleware(middleware: ContextMiddleware<any>): RequestHandler {
+  return (req, res, next): void => {
+    Promise.resolve()
+      .then(() => middleware.provide(req, res))
+      .then((provided: object) => {
+        const ctx: object = (req as { ctx?: object }).ctx ?? {};
+        Object.assign(req, { ctx: Object.assign(ctx, provided) });
+
+        if (!res.headersSent) next();
+      })
+      .catch(next);
+  };
+}
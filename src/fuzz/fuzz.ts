@@ -0,0 +1,306 @@
+import type { Application } from 'express';
+import { z } from 'zod';
+import type { RouteDefinition, ResponseSchemas } from '../types';
+import type { TypedRouter } from '../router/TypedRouter';
+import type { HttpMethod, RouteMethod } from '../router/methods';
+import { flattenRoutes } from '../router/registry';
+import { checkResponse, createClient } from '../client/client';
+import type { ResponseValidationViolation } from '../response/validation';
+import { isZodSchema } from '../validation/body';
+import { createInProcessFetch } from '../testing/fetch';
+import { serveRouter } from '../testing/client';
+import { createRandom, generate, hashSeed } from '../mock/fake';
+import type { GenerateContext } from '../mock/fake';
+import { generateInvalid } from './invalid';
+
+type AnyRouteDefinition = RouteDefinition<any, any, any, any, any, any, any, any>;
+
+export interface FuzzOptions {
+  readonly seed?: number;
+  readonly runs?: number;
+  readonly app?: Application;
+  readonly basePath?: string;
+  readonly headers?: Readonly<Record<string, string>>;
+}
+
+export type FuzzFindingKind = ResponseValidationViolation['reason'] | 'rejected-valid-input';
+
+// Invalid inputs may hold a value of the wrong type in any location
+export interface FuzzInput {
+  readonly valid: boolean;
+  readonly params?: unknown;
+  readonly query?: unknown;
+  readonly body?: unknown;
+  readonly headers?: unknown;
+  readonly cookies?: unknown;
+}
+
+export interface FuzzFinding {
+  readonly method: RouteMethod;
+  readonly path: string;
+  readonly kind: FuzzFindingKind;
+  readonly status: number;
+  readonly input: FuzzInput;
+  readonly response: unknown;
+  readonly issues: readonly z.ZodIssue[];
+  readonly occurrences: number;
+}
+
+export interface FuzzSkippedRoute {
+  readonly method: RouteMethod;
+  readonly path: string;
+  readonly reason: string;
+}
+
+export interface FuzzReport {
+  readonly requests: number;
+  readonly findings: readonly FuzzFinding[];
+  readonly skipped: readonly FuzzSkippedRoute[];
+}
+
+interface FuzzSchemas {
+  readonly params?: z.ZodTypeAny;
+  readonly query?: z.ZodTypeAny;
+  readonly body?: z.ZodTypeAny;
+  readonly headers?: z.ZodTypeAny;
+  readonly cookies?: z.ZodTypeAny;
+}
+
+type FuzzLocation = keyof FuzzSchemas;
+
+interface FuzzRequest {
+  readonly params?: Readonly<Record<string, unknown>>;
+  readonly query?: Readonly<Record<string, unknown>>;
+  readonly body?: unknown;
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly contentType?: 'application/x-www-form-urlencoded';
+}
+
+interface FuzzResponse {
+  readonly status: number;
+  readonly body: unknown;
+  readonly headers: Headers;
+}
+
+interface FuzzTarget {
+  readonly schemas: FuzzSchemas;
+  readonly contentType?: 'application/x-www-form-urlencoded';
+}
+
+const LOCATIONS = ['params', 'query', 'body', 'headers', 'cookies'] as const;
+
+// Statuses the library itself answers malformed requests with
+const REJECTION_STATUSES = new Set([400, 415]);
+
+/**
+ * Drives every route on a typed router in process with generated valid and
+ * invalid inputs. Reports responses whose status is not declared or whose body
+ * or headers fail the declared schema, and valid inputs answered with 400.
+ * Invalid inputs rejected with 400 or 415 are expected and not reported.
+ */
+export async function fuzzRoutes(router: TypedRouter<any>, options: FuzzOptions = {}): Promise<FuzzReport> {
+  const seed = options.seed ?? 1;
+  const runs = options.runs ?? 20;
+  const client = createClient<TypedRouter<any>>({
+    baseUrl: `http://localhost${options.basePath ?? ''}`,
+    fetch: createInProcessFetch(options.app ?? serveRouter(router)),
+    ...(options.headers ? { headers: options.headers } : {}),
+  }) as unknown as Record<HttpMethod, (path: string, request: FuzzRequest) => Promise<FuzzResponse>>;
+
+  const findings = new Map<string, FuzzFinding>();
+  const skipped: FuzzSkippedRoute[] = [];
+  let requests = 0;
+
+  for (const { method, path, definition } of flattenRoutes(router)) {
+    const target = fuzzTarget(path, definition);
+
+    if (typeof target === 'string') {
+      skipped.push({ method, path, reason: target });
+      continue;
+    }
+
+    const context: GenerateContext = { random: createRandom(hashSeed(seed, method, path)), edgeCases: true };
+    const responses = (definition.schemas.response ?? {}) as ResponseSchemas;
+    const send = client[method === 'all' ? 'get' : method];
+
+    for (let run = 0; run < runs * 2; run++) {
+      const valid = run % 2 === 0;
+      const input = valid ? validInput(target.schemas, context) : invalidInput(target.schemas, context);
+      if (!input) continue;
+
+      requests += 1;
+      const response = await send(path, {
+        ...requestOptions(input),
+        ...(target.contentType ? { contentType: target.contentType } : {}),
+      });
+
+      const problem = inspect(method, response, responses, valid);
+      if (!problem) continue;
+
+      const key = `${method} ${path} ${problem.kind} ${response.status}`;
+      const existing = findings.get(key);
+      findings.set(
+        key,
+        existing
+          ? { ...existing, occurrences: existing.occurrences + 1 }
+          : { method, path, status: response.status, input: { valid, ...input }, occurrences: 1, ...problem }
+      );
+    }
+  }
+
+  return { requests, findings: [...findings.values()], skipped };
+}
+
+function fuzzTarget(path: string, definition: AnyRouteDefinition): FuzzTarget | string {
+  const { body, query, params, headers, cookies, files } = definition.schemas;
+  if (files) return 'Multipart routes are not fuzzed';
+
+  let bodySchema: z.ZodTypeAny | undefined;
+  let contentType: FuzzTarget['contentType'];
+
+  if (body && isZodSchema(body)) {
+    bodySchema = body;
+  } else if (body) {
+    const mediaTypes = body as Readonly<Record<string, z.ZodTypeAny>>;
+    bodySchema = mediaTypes['application/json'];
+
+    if (!bodySchema && mediaTypes['application/x-www-form-urlencoded']) {
+      bodySchema = mediaTypes['application/x-www-form-urlencoded'];
+      contentType = 'application/x-www-form-urlencoded';
+    }
+    if (!bodySchema) return 'Only JSON and URL-encoded bodies are fuzzed';
+  }
+
+  // Path parameters without a schema are filled with generated strings
+  const names = [...path.matchAll(/:(\w+)/g)].map((match) => match[1] as string);
+  const paramsSchema =
+    params ?? (names.length > 0 ? z.object(Object.fromEntries(names.map((name) => [name, z.string()]))) : undefined);
+
+  const schemas: FuzzSchemas = {
+    ...(paramsSchema ? { params: paramsSchema } : {}),
+    ...(query ? { query } : {}),
+    ...(bodySchema ? { body: bodySchema } : {}),
+    ...(headers ? { headers } : {}),
+    ...(cookies ? { cookies } : {}),
+  };
+
+  return contentType ? { schemas, contentType } : { schemas };
+}
+
+type GeneratedInput = Partial<Record<FuzzLocation, unknown>>;
+
+function validInput(schemas: FuzzSchemas, context: GenerateContext): GeneratedInput | undefined {
+  const input: GeneratedInput = {};
+
+  for (const location of LOCATIONS) {
+    const schema = schemas[location];
+    if (!schema) continue;
+
+    // Path parameters stay non-empty so the request reaches the route
+    const generated = generate(schema, location === 'params' ? { random: context.random } : context, 0);
+    const value = location === 'query' ? queryForm(generated) : generated;
+
+    // Refinements, and query strings that cannot carry a required empty array, can reject generated values;
+    // those samples are dropped
+    if (!schema.safeParse(value).success) return undefined;
+    input[location] = value;
+  }
+
+  return input;
+}
+
+// What a query survives the query string as: empty arrays and objects add no parameters
+function queryForm(query: unknown): unknown {
+  if (typeof query !== 'object' || query === null || Array.isArray(query)) return query;
+
+  return Object.fromEntries(
+    Object.entries(query).flatMap(([key, value]) => {
+      const sent = queryValue(value);
+      return sent === undefined ? [] : [[key, sent]];
+    })
+  );
+}
+
+function queryValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    const items = value.map(queryValue).filter((item) => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    const entries = Object.entries(queryForm(value) as Record<string, unknown>);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
+  return value;
+}
+
+function invalidInput(schemas: FuzzSchemas, context: GenerateContext): GeneratedInput | undefined {
+  const input = validInput(schemas, context);
+  const locations = LOCATIONS.filter((location) => schemas[location]);
+  const location = locations[Math.floor(context.random() * locations.length)];
+  if (!input || !location) return undefined;
+
+  const invalid = generateInvalid(schemas[location] as z.ZodTypeAny, context);
+  if (!invalid) return undefined;
+
+  if (location === 'params' && !isComplete(invalid.value, input.params)) return undefined;
+
+  return { ...input, [location]: invalid.value };
+}
+
+function isComplete(params: unknown, valid: unknown): boolean {
+  if (typeof params !== 'object' || params === null || typeof valid !== 'object' || valid === null) return false;
+
+  return Object.keys(valid).every((name) => {
+    const value = (params as Record<string, unknown>)[name];
+    return value !== undefined && String(value) !== '';
+  });
+}
+
+function requestOptions(input: GeneratedInput): FuzzRequest {
+  const headers: Record<string, string> = {};
+
+  if (input.headers && typeof input.headers === 'object') {
+    Object.entries(input.headers).forEach(([name, value]) => {
+      if (value !== undefined) headers[name] = value instanceof Date ? value.toUTCString() : String(value);
+    });
+  }
+
+  if (input.cookies && typeof input.cookies === 'object') {
+    headers.cookie = Object.entries(input.cookies)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${name}=${encodeURIComponent(String(value))}`)
+      .join('; ');
+  }
+
+  return {
+    ...(input.params !== undefined ? { params: input.params as Record<string, unknown> } : {}),
+    ...(input.query !== undefined ? { query: input.query as Record<string, unknown> } : {}),
+    ...('body' in input ? { body: input.body } : {}),
+    ...(Object.keys(headers).length > 0 ? { headers } : {}),
+  };
+}
+
+function inspect(
+  method: RouteMethod,
+  response: FuzzResponse,
+  responses: ResponseSchemas,
+  valid: boolean
+): Pick<FuzzFinding, 'kind' | 'response' | 'issues'> | undefined {
+  const { status, body } = response;
+
+  if (valid && status === 400) return { kind: 'rejected-valid-input', response: body, issues: [] };
+
+  // Routes without declared responses are unchecked, but server errors are still reported
+  if (Object.keys(responses).length === 0) {
+    return status >= 500 ? { kind: 'undeclared-status', response: body, issues: [] } : undefined;
+  }
+
+  const checked = checkResponse(responses, status, body, response.headers);
+  if (!('reason' in checked)) return undefined;
+  if (checked.reason === 'undeclared-status' && !valid && REJECTION_STATUSES.has(status)) return undefined;
+  if (checked.reason === 'invalid-body' && method === 'head') return undefined;
+
+  return { kind: checked.reason, response: body, issues: checked.issues };
+}
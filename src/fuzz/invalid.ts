@@ -0,0 +1,111 @@
+import { ZodFirstPartyTypeKind } from 'zod';
+import type { z } from 'zod';
+import { generate } from '../mock/fake';
+import type { GenerateContext } from '../mock/fake';
+import { findCheck, schemaDef } from '../zod/introspect';
+
+// Wrapped so that a missing value can itself be the invalid input
+export interface InvalidValue {
+  readonly value: unknown;
+}
+
+const INVALID = '__invalid__';
+
+/**
+ * Produces a value the schema should reject: a wrong type, a broken format or
+ * bound, a missing required property or an unknown enum member. Returns
+ * undefined for schemas that accept anything.
+ */
+export function generateInvalid(schema: z.ZodTypeAny, context: GenerateContext): InvalidValue | undefined {
+  const candidates = invalidCandidates(schema, context).filter(({ value }) => !schema.safeParse(value).success);
+
+  return candidates[Math.floor(context.random() * candidates.length)];
+}
+
+function invalidCandidates(schema: z.ZodTypeAny, context: GenerateContext): InvalidValue[] {
+  const def = schemaDef(schema);
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const candidates: InvalidValue[] = [{ value: 42 }];
+      const check = <TKind extends z.ZodStringCheck['kind']>(kind: TKind) => findCheck(def.checks, kind);
+      const min = check('min')?.value ?? check('length')?.value;
+      const max = check('max')?.value ?? check('length')?.value;
+      if (min !== undefined && min > 0) candidates.push({ value: 'x'.repeat(min - 1) });
+      if (max !== undefined) candidates.push({ value: 'x'.repeat(max + 1) });
+      if ((['email', 'uuid', 'url', 'datetime', 'date', 'ip'] as const).some((kind) => check(kind))) {
+        candidates.push({ value: 'not a valid format' });
+      }
+      return candidates;
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const candidates: InvalidValue[] = [{ value: 'not-a-number' }];
+      const min = findCheck(def.checks, 'min')?.value;
+      const max = findCheck(def.checks, 'max')?.value;
+      if (min !== undefined) candidates.push({ value: min - 1 });
+      if (max !== undefined) candidates.push({ value: max + 1 });
+      if (findCheck(def.checks, 'int')) candidates.push({ value: (min ?? 0) + 0.5 });
+      return candidates;
+    }
+    case ZodFirstPartyTypeKind.ZodBigInt:
+    case ZodFirstPartyTypeKind.ZodBoolean:
+    case ZodFirstPartyTypeKind.ZodDate:
+      return [{ value: INVALID }];
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return [{ value: def.value === INVALID ? 0 : INVALID }];
+    case ZodFirstPartyTypeKind.ZodEnum:
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return [{ value: INVALID }];
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const candidates: InvalidValue[] = [{ value: INVALID }];
+      const min = def.exactLength?.value ?? def.minLength?.value;
+      const max = def.exactLength?.value ?? def.maxLength?.value;
+      if (min !== undefined && min > 0) candidates.push({ value: [] });
+      if (max !== undefined) {
+        candidates.push({ value: Array.from({ length: max + 1 }, () => generate(def.type, context, 1)) });
+      }
+      const item = generateInvalid(def.type, context);
+      if (item) candidates.push({ value: [item.value] });
+      return candidates;
+    }
+    case ZodFirstPartyTypeKind.ZodObject:
+      return objectCandidates(schema as z.AnyZodObject, context);
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return invalidCandidates(def.innerType, context);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return invalidCandidates(def.type, context);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return invalidCandidates(def.schema, context);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return invalidCandidates(def.in, context);
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+    case ZodFirstPartyTypeKind.ZodIntersection:
+    case ZodFirstPartyTypeKind.ZodTuple:
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return [{ value: INVALID }, { value: { [INVALID]: INVALID } }, { value: null }];
+    default:
+      return [];
+  }
+}
+
+function objectCandidates(schema: z.AnyZodObject, context: GenerateContext): InvalidValue[] {
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  const valid = generate(schema, context, 0) as Record<string, unknown>;
+  const candidates: InvalidValue[] = [{ value: INVALID }];
+
+  Object.entries(shape).forEach(([key, property]) => {
+    if (!property.isOptional()) {
+      const { [key]: _removed, ...rest } = valid;
+      candidates.push({ value: rest });
+    }
+
+    const invalid = generateInvalid(property, context);
+    if (invalid) candidates.push({ value: { ...valid, [key]: invalid.value } });
+  });
+
+  return candidates;
+}
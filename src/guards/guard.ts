@@ -0,0 +1,66 @@
+import type { Request } from 'express';
+import type { ResponseInputOf, ResponseSchemas, UnionToIntersection } from '../types';
+
+export class GuardDenial {
+  constructor(
+    readonly status: number,
+    readonly body?: unknown
+  ) {}
+}
+
+export type GuardDeny<TResponses> = [keyof TResponses] extends [never]
+  ? (status: number, body?: unknown) => GuardDenial
+  : <TStatus extends keyof TResponses & number>(
+      status: TStatus,
+      body: ResponseInputOf<TResponses[TStatus]>
+    ) => GuardDenial;
+
+export type GuardOutcome<TContext> = TContext | GuardDenial;
+
+export interface Guard<TContext extends object = {}, TResponses extends ResponseSchemas = {}> {
+  readonly name: string;
+  readonly scopes?: readonly string[];
+  readonly securityScheme?: Readonly<Record<string, unknown>>;
+  readonly responses?: TResponses;
+  readonly check: (
+    req: Request,
+    deny: GuardDeny<TResponses>
+  ) => GuardOutcome<TContext> | Promise<GuardOutcome<TContext>>;
+}
+
+// A guard that can only deny infers its context as GuardDenial, which adds nothing to the request
+type ContextOf<TGuard> = TGuard extends Guard<infer TContext, any> ? Exclude<TContext, GuardDenial> : never;
+
+type ResponsesOf<TGuard> = TGuard extends Guard<any, infer TResponses> ? TResponses : never;
+
+// Tuples are folded one guard at a time; a union of contexts would lose members next to `{}` to subtype reduction
+export type GuardContext<TGuards extends readonly Guard<any, any>[]> = TGuards extends readonly [
+  infer THead,
+  ...infer TRest extends readonly Guard<any, any>[],
+]
+  ? ([ContextOf<THead>] extends [never] ? unknown : ContextOf<THead>) & GuardContext<TRest>
+  : UnionToIntersection<ContextOf<TGuards[number]>>;
+
+export type GuardResponses<TGuards extends readonly Guard<any, any>[]> = TGuards extends readonly [
+  infer THead,
+  ...infer TRest extends readonly Guard<any, any>[],
+]
+  ? ResponsesOf<THead> & GuardResponses<TRest>
+  : UnionToIntersection<ResponsesOf<TGuards[number]>>;
+
+// Guard failures only join routes that already declare responses, so unchecked routes stay unchecked
+export type WithGuardResponses<TResponse, TGuardResponses> = [keyof TResponse] extends [never]
+  ? TResponse
+  : unknown extends TGuardResponses
+    ? TResponse
+    : TResponse & TGuardResponses;
+
+export function defineGuard<TContext extends object, TResponses extends ResponseSchemas = {}>(
+  guard: Guard<TContext, TResponses>
+): Guard<TContext, TResponses> {
+  return guard;
+}
+
+export function isGuardDenial(value: unknown): value is GuardDenial {
+  return value instanceof GuardDenial;
+}
@@ -0,0 +1,37 @@
+import { STATUS_CODES } from 'node:http';
+import type { RequestHandler } from 'express';
+import { GuardDenial, isGuardDenial } from './guard';
+import type { Guard } from './guard';
+
+const deny = (status: number, body?: unknown): GuardDenial => new GuardDenial(status, body);
+
+/**
+ * Runs guards in order before validation. Each guard either adds its context
+ * to the request or denies it, in which case the denial is sent and no later
+ * guard or handler runs.
+ */
+export function createGuardMiddleware(guards: readonly Guard<any, any>[]): RequestHandler {
+  return (req, res, next): void => {
+    const run = async (): Promise<GuardDenial | undefined> => {
+      for (const guard of guards) {
+        const outcome: unknown = await guard.check(req, deny);
+        if (isGuardDenial(outcome)) return outcome;
+
+        Object.assign(req, outcome);
+      }
+
+      return undefined;
+    };
+
+    run()
+      .then((denial) => {
+        if (!denial) {
+          next();
+          return;
+        }
+
+        res.status(denial.status).json(denial.body ?? { error: STATUS_CODES[denial.status] ?? 'Request denied' });
+      })
+      .catch(next);
+  };
+}
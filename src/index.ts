@@ -1,23 +1,144 @@
 export { route } from './route/route';
 export { typedRoute, RouteBuilder } from './route/RouteBuilder';
+export { mergeRoutes } from './route/compose';
 export { createTypedRouter } from './router/TypedRouter';
+export { generateOpenApiDocument } from './openapi/document';
+export { zodToJsonSchema } from './openapi/jsonSchema';
 export { createValidationMiddleware } from './validation/middleware';
+export { compileValidator } from './validation/compile';
+export {
+  RequestValidationError,
+  UnsupportedMediaTypeError,
+  UnsupportedVersionError,
+  defaultValidationErrorFormatter,
+  problemDetailsFormatter,
+} from './validation/errors';
+export { createResponseValidationMiddleware, ResponseValidationError } from './response/validation';
+export { compileSerializer, createResponseSerializerMiddleware } from './response/serialize';
+export { createResponseOutputMiddleware, sendsBigInts, transformsOutput } from './response/output';
+export { createClient } from './client/client';
+export { createTestClient } from './testing/client';
+export { createInProcessFetch } from './testing/fetch';
+export { createMockApp } from './mock/server';
+export { generateFromSchema } from './mock/fake';
+export { fuzzRoutes } from './fuzz/fuzz';
+export { createRouteManifest } from './manifest/manifest';
+export { diffRouteManifests, formatManifestDiff } from './manifest/diff';
+export { flattenRoutes } from './router/registry';
+export { defineGuard, GuardDenial } from './guards/guard';
+export { defineMiddleware } from './context/context';
 
 export type {
   RouteSchemas,
+  RequestBodySchema,
+  RequestBodySchemas,
+  RequestBodyOf,
+  RequestBodyInputOf,
+  RequestInput,
+  FileFieldSchema,
+  FileSchemas,
+  UploadedFile,
+  UploadedFilesOf,
   RouteDefinition,
+  RouteOptions,
+  RouteMeta,
+  RouteHandlers,
   ResponseSchemas,
+  ResponseSchema,
+  ResponseDefinition,
+  ResponseContent,
+  JsonResponseDefinition,
+  TextResponseDefinition,
+  BinaryResponseDefinition,
+  EmptyResponseDefinition,
+  ResponseBodyOf,
+  ResponseInputOf,
+  ResponseOutputOf,
+  Jsonify,
+  ResponseContentOf,
+  ResponseHeadersOf,
   TypedRequest,
   TypedResponse,
   TypedHandler,
+  HandlerResult,
 } from './types';
 
-export type { ValidationSchemas, ValidationError } from './validation/middleware';
-export type { TypedRouter } from './router/TypedRouter';
+export type { ValidationSchemas, ValidationError, ValidationMiddlewareOptions } from './validation/middleware';
+export type {
+  ValidationErrorFormatter,
+  ValidationErrorResponse,
+  ValidationErrorStrategy,
+  VersionSource,
+} from './validation/errors';
+export type {
+  ResponseValidationMode,
+  ResponseValidationOptions,
+  ResponseValidationSetting,
+  ResponseValidationViolation,
+} from './response/validation';
+export type {
+  TypedRouter,
+  TypedRouterOptions,
+  TypedRouteChain,
+  RegisteredRoute,
+  RouterMount,
+  RouteMap,
+  InferRouteMap,
+  PrefixRoutes,
+  WithDefaults,
+} from './router/TypedRouter';
+export type { JoinPaths } from './router/registry';
+export type { Guard, GuardContext, GuardDeny, GuardOutcome, GuardResponses } from './guards/guard';
+export type { MergedRoute, DeepMerge } from './route/compose';
+export type { ContextMiddleware, ContextStage, MiddlewareContext } from './context/context';
+export type { HttpMethod, RouteMethod } from './router/methods';
+export type { PathParams, RouteParams, RouteParamsInput, CheckPathParams, ParamsMismatch } from './router/pathParams';
+export type {
+  ClientOptions,
+  ClientRequestOptions,
+  ClientResponse,
+  ClientMethod,
+  TypedClient,
+} from './client/client';
+export type { TestClientOptions, AppTestClientOptions } from './testing/client';
+export type { MockAppOptions, MockOverrides, MockRouteOverride } from './mock/server';
+export type { GenerateOptions } from './mock/fake';
+export type { CompiledValidator } from './validation/compile';
+export type { Serializer } from './response/serialize';
+export type { FuzzOptions, FuzzFinding, FuzzFindingKind, FuzzInput, FuzzReport, FuzzSkippedRoute } from './fuzz/fuzz';
+export type {
+  OpenApiDocument,
+  OpenApiDocumentOptions,
+  OpenApiInfo,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiResponse,
+  OpenApiHeader,
+} from './openapi/document';
+export type { JsonSchema } from './openapi/jsonSchema';
+export type { VersioningOptions, VersioningStrategy } from './versioning/versioning';
+export type {
+  RouteManifest,
+  RouteManifestEntry,
+  RouteManifestRequest,
+  RouteManifestResponse,
+} from './manifest/manifest';
+export type { ManifestChange, ManifestChangeLocation, ManifestChangeSeverity, ManifestDiff } from './manifest/diff';
 export type {
   InferBody,
   InferQuery,
   InferParams,
+  InferHeaders,
+  InferCookies,
+  InferFiles,
+  InferContext,
+  InferInput,
+  InferBodyInput,
+  InferQueryInput,
+  InferParamsInput,
+  InferHeadersInput,
+  InferCookiesInput,
   InferResponses,
   InferResponseForStatus,
+  InferResponseOutputForStatus,
 } from './validation/inference';
@@ -0,0 +1,485 @@
+import type { FileFieldSchema, FileSchemas } from '../types';
+import type { RouteMethod } from '../router/methods';
+import type { JsonSchema } from '../openapi/jsonSchema';
+import type { RouteManifest, RouteManifestEntry, RouteManifestResponse } from './manifest';
+
+export type ManifestChangeSeverity = 'breaking' | 'non-breaking';
+
+export type ManifestChangeLocation = 'route' | 'params' | 'query' | 'headers' | 'cookies' | 'body' | 'files' | 'response';
+
+export interface ManifestChange {
+  readonly severity: ManifestChangeSeverity;
+  readonly method: RouteMethod;
+  readonly path: string;
+  readonly version?: string;
+  readonly location: ManifestChangeLocation;
+  readonly mediaType?: string;
+  readonly status?: string;
+  readonly field?: string;
+  readonly message: string;
+}
+
+export interface ManifestDiff {
+  readonly breaking: boolean;
+  readonly changes: readonly ManifestChange[];
+}
+
+// Requests break when the new schema accepts less, responses when it can produce more
+type Direction = 'request' | 'response';
+
+interface SchemaChange {
+  readonly field: string;
+  readonly message: string;
+  readonly narrows: boolean;
+  readonly widens: boolean;
+}
+
+type ChangeTarget = Omit<ManifestChange, 'severity' | 'message' | 'field'>;
+
+const lowerBounds = ['minLength', 'minItems', 'minimum', 'exclusiveMinimum'] as const;
+const upperBounds = ['maxLength', 'maxItems', 'maximum', 'exclusiveMaximum'] as const;
+
+/**
+ * Compares two route manifests and classifies every difference as breaking or
+ * non-breaking for existing clients. Routes are matched by method, path and
+ * version, ignoring the names of path parameters.
+ */
+export function diffRouteManifests(previous: RouteManifest, next: RouteManifest): ManifestDiff {
+  const changes: ManifestChange[] = [];
+  const nextRoutes = new Map(next.routes.map((entry) => [routeKey(entry), entry]));
+  const previousKeys = new Set(previous.routes.map(routeKey));
+
+  previous.routes.forEach((before) => {
+    const after = nextRoutes.get(routeKey(before));
+    const target: ChangeTarget = {
+      method: before.method,
+      path: after?.path ?? before.path,
+      ...(before.version ? { version: before.version } : {}),
+      location: 'route',
+    };
+
+    if (!after) {
+      changes.push({ ...target, severity: 'breaking', message: 'Route was removed' });
+      return;
+    }
+
+    changes.push(...diffRequest(before, after, target), ...diffResponses(before.responses, after.responses, target));
+  });
+
+  next.routes
+    .filter((entry) => !previousKeys.has(routeKey(entry)))
+    .forEach(({ method, path, version }) => {
+      changes.push({
+        method,
+        path,
+        ...(version ? { version } : {}),
+        location: 'route',
+        severity: 'non-breaking',
+        message: 'Route was added',
+      });
+    });
+
+  return { breaking: changes.some((change) => change.severity === 'breaking'), changes };
+}
+
+/**
+ * Renders a manifest diff as one line per change, breaking changes first.
+ */
+export function formatManifestDiff(diff: ManifestDiff): string {
+  if (diff.changes.length === 0) return 'No route changes';
+
+  const lines = [...diff.changes]
+    .sort((a, b) => Number(a.severity !== 'breaking') - Number(b.severity !== 'breaking'))
+    .map((change) => {
+      const where = [
+        change.location === 'route' ? undefined : change.location,
+        change.status,
+        change.mediaType,
+        change.field,
+      ].filter(Boolean);
+      const route = `${change.method.toUpperCase()} ${change.path}${change.version ? ` (v${change.version})` : ''}`;
+      const prefix = `${change.severity === 'breaking' ? 'BREAKING' : 'non-breaking'}  ${route}`;
+
+      return where.length > 0 ? `${prefix}  ${where.join(' ')}: ${change.message}` : `${prefix}: ${change.message}`;
+    });
+
+  return lines.join('\n');
+}
+
+function routeKey({ method, path, version }: RouteManifestEntry): string {
+  return `${method} ${path.replace(/:[A-Za-z0-9_]+/g, ':')}${version ? ` v${version}` : ''}`;
+}
+
+function diffRequest(before: RouteManifestEntry, after: RouteManifestEntry, target: ChangeTarget): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+
+  (['params', 'query', 'headers', 'cookies'] as const).forEach((location) => {
+    const previousSchema = before.request[location];
+    const nextSchema = after.request[location];
+    if (!previousSchema && !nextSchema) return;
+
+    changes.push(
+      ...classify(compareSchemas(previousSchema ?? untyped(nextSchema), nextSchema ?? untyped(previousSchema)), 'request', {
+        ...target,
+        location,
+      })
+    );
+  });
+
+  const previousBody = before.request.body;
+  const nextBody = after.request.body;
+
+  if (nextBody) {
+    Object.entries(nextBody).forEach(([mediaType, schema]) => {
+      const bodyTarget = { ...target, location: 'body' as const, mediaType };
+      const previousSchema = previousBody ? previousBody[mediaType] : untyped(schema);
+
+      if (previousSchema) {
+        changes.push(...classify(compareSchemas(previousSchema, schema), 'request', bodyTarget));
+      } else {
+        changes.push({ ...bodyTarget, severity: 'non-breaking', message: 'Media type is now accepted' });
+      }
+    });
+  }
+
+  if (previousBody && nextBody) {
+    Object.keys(previousBody)
+      .filter((mediaType) => !(mediaType in nextBody))
+      .forEach((mediaType) => {
+        changes.push({
+          ...target,
+          location: 'body',
+          mediaType,
+          severity: 'breaking',
+          message: 'Media type is no longer accepted',
+        });
+      });
+  }
+
+  if (before.request.files || after.request.files) {
+    changes.push(...diffFiles(before.request.files ?? {}, after.request.files ?? {}, { ...target, location: 'files' }));
+  }
+
+  return changes;
+}
+
+function diffFiles(before: FileSchemas, after: FileSchemas, target: ChangeTarget): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+  const change = (field: string, breaking: boolean, message: string): void => {
+    changes.push({ ...target, field, severity: breaking ? 'breaking' : 'non-breaking', message });
+  };
+
+  Object.entries(before).forEach(([field, previous]) => {
+    const next = after[field];
+    if (!next) return change(field, true, 'File field was removed');
+
+    if (!previous.required && next.required) change(field, true, 'File field is now required');
+    if (previous.required && !next.required) change(field, false, 'File field is now optional');
+    if (previous.multiple && !next.multiple) change(field, true, 'File field no longer accepts multiple files');
+    if (!previous.multiple && next.multiple) change(field, false, 'File field now accepts multiple files');
+
+    (['maxSize', 'maxCount'] as const).forEach((limit) => {
+      const limitChange = compareLimit(previous, next, limit);
+      if (limitChange) change(field, limitChange.narrows, limitChange.message);
+    });
+
+    const previousTypes = previous.mimeTypes;
+    const nextTypes = next.mimeTypes;
+
+    if (nextTypes && !previousTypes) {
+      change(field, true, `Only ${nextTypes.join(', ')} files are accepted`);
+    } else if (previousTypes && !nextTypes) {
+      change(field, false, 'Files of any MIME type are accepted');
+    } else if (previousTypes && nextTypes) {
+      const removed = previousTypes.filter((type) => !nextTypes.includes(type));
+      const added = nextTypes.filter((type) => !previousTypes.includes(type));
+      if (removed.length > 0) change(field, true, `MIME types no longer accepted: ${removed.join(', ')}`);
+      if (added.length > 0) change(field, false, `MIME types now accepted: ${added.join(', ')}`);
+    }
+  });
+
+  Object.entries(after)
+    .filter(([field]) => !(field in before))
+    .forEach(([field, next]) => {
+      change(field, Boolean(next.required), next.required ? 'Required file field was added' : 'File field was added');
+    });
+
+  return changes;
+}
+
+function compareLimit(
+  previous: FileFieldSchema,
+  next: FileFieldSchema,
+  limit: 'maxSize' | 'maxCount'
+): { narrows: boolean; message: string } | undefined {
+  const before = previous[limit] ?? Infinity;
+  const after = next[limit] ?? Infinity;
+  if (before === after) return undefined;
+
+  return { narrows: after < before, message: `${limit} changed from ${formatValue(before)} to ${formatValue(after)}` };
+}
+
+function diffResponses(
+  before: Record<string, RouteManifestResponse>,
+  after: Record<string, RouteManifestResponse>,
+  target: ChangeTarget
+): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+
+  Object.entries(before).forEach(([status, previous]) => {
+    const responseTarget = { ...target, location: 'response' as const, status };
+    const next = after[status];
+
+    if (!next) {
+      changes.push({ ...responseTarget, severity: 'breaking', message: 'Status code was removed' });
+      return;
+    }
+
+    if (previous.content !== next.content) {
+      changes.push({
+        ...responseTarget,
+        severity: 'breaking',
+        message: `Content changed from ${previous.content} to ${next.content}`,
+      });
+      return;
+    }
+
+    if (previous.contentType !== next.contentType) {
+      changes.push({
+        ...responseTarget,
+        severity: 'breaking',
+        message: `Content type changed from ${formatValue(previous.contentType)} to ${formatValue(next.contentType)}`,
+      });
+    }
+
+    if (previous.body || next.body) {
+      changes.push(
+        ...classify(
+          compareSchemas(previous.body ?? untyped(next.body), next.body ?? untyped(previous.body)),
+          'response',
+          responseTarget
+        )
+      );
+    }
+
+    if (previous.headers || next.headers) {
+      changes.push(
+        ...classify(compareSchemas(previous.headers ?? {}, next.headers ?? {}), 'response', {
+          ...responseTarget,
+          mediaType: 'headers',
+        })
+      );
+    }
+  });
+
+  Object.keys(after)
+    .filter((status) => !(status in before))
+    .forEach((status) => {
+      changes.push({ ...target, location: 'response', status, severity: 'non-breaking', message: 'Status code was added' });
+    });
+
+  return changes;
+}
+
+function classify(changes: SchemaChange[], direction: Direction, target: ChangeTarget): ManifestChange[] {
+  return changes.map(({ field, message, narrows, widens }) => ({
+    ...target,
+    ...(field ? { field } : {}),
+    severity: (direction === 'request' ? narrows : widens) ? 'breaking' : 'non-breaking',
+    message,
+  }));
+}
+
+function compareSchemas(before: JsonSchema, after: JsonSchema, field = ''): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const change = (message: string, narrows: boolean, widens: boolean, at = field): void => {
+    changes.push({ field: at, message, narrows, widens });
+  };
+
+  const previous = unwrapNullable(before);
+  const next = unwrapNullable(after);
+
+  if (previous.nullable && !next.nullable) change('No longer nullable', true, false);
+  if (!previous.nullable && next.nullable) change('Now nullable', false, true);
+
+  const previousType = previous.schema.type;
+  const nextType = next.schema.type;
+
+  if (previousType !== undefined && nextType !== undefined && previousType !== nextType) {
+    if (previousType === 'integer' && nextType === 'number') change('Type widened from integer to number', false, true);
+    else if (previousType === 'number' && nextType === 'integer') change('Type narrowed from number to integer', true, false);
+    else change(`Type changed from ${formatValue(previousType)} to ${formatValue(nextType)}`, true, true);
+    return changes;
+  }
+  if (previousType === undefined && nextType !== undefined) change(`Type is now ${formatValue(nextType)}`, true, false);
+  if (previousType !== undefined && nextType === undefined) change('Type is no longer restricted', false, true);
+
+  if (!sameJson(previous.schema.anyOf, next.schema.anyOf) || !sameJson(previous.schema.allOf, next.schema.allOf)) {
+    change('Union or intersection members changed', true, true);
+  }
+
+  if (!sameJson(previous.schema.const, next.schema.const)) {
+    change(`Value changed from ${formatValue(previous.schema.const)} to ${formatValue(next.schema.const)}`, true, true);
+  }
+
+  compareEnums(previous.schema.enum, next.schema.enum, change);
+  compareBounds(previous.schema, next.schema, change);
+
+  (['format', 'pattern'] as const).forEach((keyword) => {
+    const previousValue = previous.schema[keyword];
+    const nextValue = next.schema[keyword];
+    if (previousValue === nextValue) return;
+
+    if (previousValue === undefined) change(`${keyword} ${formatValue(nextValue)} was added`, true, false);
+    else if (nextValue === undefined) change(`${keyword} ${formatValue(previousValue)} was removed`, false, true);
+    else change(`${keyword} changed from ${formatValue(previousValue)} to ${formatValue(nextValue)}`, true, true);
+  });
+
+  if (isSchema(previous.schema.items) || isSchema(next.schema.items)) {
+    changes.push(...compareSchemas(asSchema(previous.schema.items), asSchema(next.schema.items), `${field}[]`));
+  }
+
+  changes.push(...compareProperties(previous.schema, next.schema, field));
+
+  return changes;
+}
+
+function compareProperties(before: JsonSchema, after: JsonSchema, field: string): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const previousProperties = asProperties(before.properties);
+  const nextProperties = asProperties(after.properties);
+  const previousRequired = new Set(asStrings(before.required));
+  const nextRequired = new Set(asStrings(after.required));
+  const closed = after.additionalProperties === false;
+  const join = (key: string): string => (field ? `${field}.${key}` : key);
+
+  Object.entries(previousProperties).forEach(([key, schema]) => {
+    const next = nextProperties[key];
+
+    if (!next) {
+      changes.push({ field: join(key), message: 'Property was removed', narrows: closed, widens: true });
+      return;
+    }
+
+    if (!previousRequired.has(key) && nextRequired.has(key)) {
+      changes.push({ field: join(key), message: 'Property is now required', narrows: true, widens: false });
+    }
+    if (previousRequired.has(key) && !nextRequired.has(key)) {
+      changes.push({ field: join(key), message: 'Property is now optional', narrows: false, widens: true });
+    }
+
+    changes.push(...compareSchemas(schema, next, join(key)));
+  });
+
+  Object.keys(nextProperties)
+    .filter((key) => !(key in previousProperties))
+    .forEach((key) => {
+      const required = nextRequired.has(key);
+      changes.push({
+        field: join(key),
+        message: required ? 'Required property was added' : 'Optional property was added',
+        narrows: required,
+        widens: false,
+      });
+    });
+
+  const previousExtra = before.additionalProperties;
+  const nextExtra = after.additionalProperties;
+
+  if (previousExtra !== false && nextExtra === false && before.type === 'object') {
+    changes.push({ field, message: 'Additional properties are no longer allowed', narrows: true, widens: false });
+  } else if (previousExtra === false && nextExtra !== false) {
+    changes.push({ field, message: 'Additional properties are now allowed', narrows: false, widens: true });
+  } else if (isSchema(previousExtra) && isSchema(nextExtra)) {
+    changes.push(...compareSchemas(previousExtra, nextExtra, field ? `${field}.*` : '*'));
+  }
+
+  return changes;
+}
+
+function compareEnums(
+  before: unknown,
+  after: unknown,
+  change: (message: string, narrows: boolean, widens: boolean) => void
+): void {
+  if (!Array.isArray(before) && !Array.isArray(after)) return;
+
+  if (!Array.isArray(after)) {
+    change('Enum restriction was removed', false, true);
+    return;
+  }
+  if (!Array.isArray(before)) {
+    change(`Values are now restricted to ${after.map(formatValue).join(', ')}`, true, false);
+    return;
+  }
+
+  const removed = before.filter((value) => !after.includes(value));
+  const added = after.filter((value) => !before.includes(value));
+
+  if (removed.length > 0) change(`Enum values removed: ${removed.map(formatValue).join(', ')}`, true, false);
+  if (added.length > 0) change(`Enum values added: ${added.map(formatValue).join(', ')}`, false, true);
+}
+
+function compareBounds(
+  before: JsonSchema,
+  after: JsonSchema,
+  change: (message: string, narrows: boolean, widens: boolean) => void
+): void {
+  const compare = (keyword: string, tighter: (previous: number, next: number) => boolean): void => {
+    const previous = before[keyword];
+    const next = after[keyword];
+    if (previous === next) return;
+
+    if (typeof previous !== 'number') change(`${keyword} ${formatValue(next)} was added`, true, false);
+    else if (typeof next !== 'number') change(`${keyword} ${formatValue(previous)} was removed`, false, true);
+    else if (tighter(previous, next)) change(`${keyword} tightened from ${previous} to ${next}`, true, false);
+    else change(`${keyword} relaxed from ${previous} to ${next}`, false, true);
+  };
+
+  lowerBounds.forEach((keyword) => compare(keyword, (previous, next) => next > previous));
+  upperBounds.forEach((keyword) => compare(keyword, (previous, next) => next < previous));
+}
+
+// Stands in for a schema that was not declared, so only its properties are compared
+function untyped(counterpart: JsonSchema | undefined): JsonSchema {
+  return counterpart?.type === undefined ? {} : { type: counterpart.type };
+}
+
+// zodToJsonSchema writes nullable schemas as anyOf [schema, { type: 'null' }]
+function unwrapNullable(schema: JsonSchema): { schema: JsonSchema; nullable: boolean } {
+  const members = Array.isArray(schema.anyOf) ? (schema.anyOf as JsonSchema[]) : undefined;
+  const inner = members?.filter((member) => member.type !== 'null');
+
+  if (members && inner && inner.length === 1 && members.length === 2) {
+    const { anyOf: _anyOf, ...rest } = schema;
+    return { schema: { ...rest, ...inner[0] }, nullable: true };
+  }
+
+  return { schema, nullable: false };
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asSchema(value: unknown): JsonSchema {
+  return isSchema(value) ? value : {};
+}
+
+function asProperties(value: unknown): Record<string, JsonSchema> {
+  return isSchema(value) ? (value as Record<string, JsonSchema>) : {};
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'none';
+  if (value === Infinity) return 'unlimited';
+  return typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+}
@@ -0,0 +1,135 @@
+import type { z } from 'zod';
+import type { FileSchemas, RequestBodySchema, ResponseContent, ResponseSchemas } from '../types';
+import type { TypedRouter } from '../router/TypedRouter';
+import type { RouteMethod } from '../router/methods';
+import { flattenRoutes } from '../router/registry';
+import { isZodSchema } from '../validation/body';
+import { resolveResponseSchema, responseContentType } from '../response/schema';
+import { zodToJsonSchema } from '../openapi/jsonSchema';
+import type { JsonSchema } from '../openapi/jsonSchema';
+import type { Guard } from '../guards/guard';
+import type { ContextMiddleware } from '../context/context';
+import { compareVersions } from '../versioning/versioning';
+
+export interface RouteManifestResponse {
+  readonly content: ResponseContent;
+  readonly contentType?: string;
+  readonly body?: JsonSchema;
+  readonly headers?: JsonSchema;
+}
+
+export interface RouteManifestRequest {
+  readonly params?: JsonSchema;
+  readonly query?: JsonSchema;
+  readonly headers?: JsonSchema;
+  readonly cookies?: JsonSchema;
+  readonly body?: Record<string, JsonSchema>;
+  readonly files?: FileSchemas;
+}
+
+export interface RouteManifestEntry {
+  readonly method: RouteMethod;
+  readonly path: string;
+  readonly version?: string;
+  readonly operationId?: string;
+  readonly summary?: string;
+  readonly description?: string;
+  readonly tags?: readonly string[];
+  readonly deprecated?: boolean;
+  readonly request: RouteManifestRequest;
+  readonly responses: Record<string, RouteManifestResponse>;
+  readonly guards: readonly string[];
+  readonly middleware: readonly string[];
+}
+
+export interface RouteManifest {
+  readonly version: 1;
+  readonly routes: readonly RouteManifestEntry[];
+}
+
+/**
+ * Describes every route on a typed router, including mounted routers, as plain
+ * JSON. Routes are sorted by path and method so manifests from two builds can
+ * be diffed directly.
+ */
+export function createRouteManifest(router: TypedRouter<any>): RouteManifest {
+  const routes = flattenRoutes(router).map(({ method, path, version, definition, middleware }): RouteManifestEntry => {
+    const { meta = {}, guards = [], use = [] } = definition.schemas;
+
+    return {
+      method,
+      path,
+      ...(version ? { version } : {}),
+      ...(meta.operationId ? { operationId: meta.operationId } : {}),
+      ...(meta.summary ? { summary: meta.summary } : {}),
+      ...(meta.description ? { description: meta.description } : {}),
+      ...(meta.tags && meta.tags.length > 0 ? { tags: [...meta.tags] } : {}),
+      ...(meta.deprecated ? { deprecated: true } : {}),
+      request: manifestRequest(definition.schemas),
+      responses: manifestResponses((definition.schemas.response ?? {}) as ResponseSchemas),
+      guards: guards.map((guard: Guard<any, any>) => guard.name),
+      middleware: [
+        ...use.flatMap((entry: ContextMiddleware<any>) => (entry.name ? [entry.name] : [])),
+        ...middleware,
+      ],
+    };
+  });
+
+  return {
+    version: 1,
+    routes: routes.sort(
+      (a, b) =>
+        a.path.localeCompare(b.path) ||
+        a.method.localeCompare(b.method) ||
+        compareVersions(a.version ?? '', b.version ?? '')
+    ),
+  };
+}
+
+function manifestRequest(schemas: {
+  readonly params?: z.ZodTypeAny;
+  readonly query?: z.ZodTypeAny;
+  readonly headers?: z.ZodTypeAny;
+  readonly cookies?: z.ZodTypeAny;
+  readonly body?: RequestBodySchema;
+  readonly files?: FileSchemas;
+}): RouteManifestRequest {
+  const { params, query, headers, cookies, body, files } = schemas;
+
+  return {
+    ...(params ? { params: zodToJsonSchema(params) } : {}),
+    ...(query ? { query: zodToJsonSchema(query) } : {}),
+    ...(headers ? { headers: zodToJsonSchema(headers) } : {}),
+    ...(cookies ? { cookies: zodToJsonSchema(cookies) } : {}),
+    ...(body
+      ? {
+          body: Object.fromEntries(
+            Object.entries(isZodSchema(body) ? { 'application/json': body } : body).map(([mediaType, schema]) => [
+              mediaType,
+              zodToJsonSchema(schema),
+            ])
+          ),
+        }
+      : {}),
+    ...(files ? { files } : {}),
+  };
+}
+
+function manifestResponses(responses: ResponseSchemas): Record<string, RouteManifestResponse> {
+  return Object.fromEntries(
+    Object.entries(responses).map(([status, entry]) => {
+      const resolved = resolveResponseSchema(entry);
+      const contentType = responseContentType(resolved);
+
+      return [
+        status,
+        {
+          content: resolved.content,
+          ...(contentType ? { contentType } : {}),
+          ...(resolved.body ? { body: zodToJsonSchema(resolved.body) } : {}),
+          ...(resolved.headers ? { headers: zodToJsonSchema(resolved.headers) } : {}),
+        },
+      ];
+    })
+  );
+}
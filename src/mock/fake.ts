@@ -0,0 +1,231 @@
+import { ZodFirstPartyTypeKind } from 'zod';
+import type { z } from 'zod';
+import { findCheck, schemaDef } from '../zod/introspect';
+
+export interface GenerateOptions {
+  readonly seed?: number;
+}
+
+export type Random = () => number;
+
+export interface GenerateContext {
+  readonly random: Random;
+  // Favors boundary values, empty collections and omitted optional fields
+  readonly edgeCases?: boolean;
+}
+
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel', 'india', 'juliet'];
+const BASE_TIME = Date.UTC(2024, 0, 1);
+const MAX_DEPTH = 6;
+
+/**
+ * Returns a small seeded pseudo-random generator (mulberry32), so generated
+ * data is the same on every run for the same seed.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function hashSeed(seed: number, ...parts: readonly string[]): number {
+  let hash = seed >>> 0 || 0x811c9dc5;
+  for (const char of parts.join(' ')) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Synthesizes a value that satisfies a Zod schema. Refinements and regex
+ * patterns are not solved, so schemas that rely on them may need an explicit
+ * example.
+ */
+export function generateFromSchema<TSchema extends z.ZodTypeAny>(
+  schema: TSchema,
+  options: GenerateOptions = {}
+): z.input<TSchema> {
+  return generate(schema, { random: createRandom(options.seed ?? 1) }, 0) as z.input<TSchema>;
+}
+
+export function generate(schema: z.ZodTypeAny, context: GenerateContext, depth: number): unknown {
+  const { random } = context;
+  const def = schemaDef(schema);
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return generateString(def.checks, context);
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return generateNumber(def.checks, context);
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return BigInt(integer(random, 0, 1000));
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return random() < 0.5;
+    case ZodFirstPartyTypeKind.ZodDate:
+      return new Date(BASE_TIME + integer(random, 0, 365) * 86_400_000);
+    case ZodFirstPartyTypeKind.ZodNull:
+      return null;
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value;
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return pick(random, def.values);
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric enums map their values back to their names; those reverse entries are skipped
+      const values = Object.entries(def.values)
+        .filter(([key]) => typeof def.values[String(def.values[key])] !== 'number')
+        .map(([, value]) => value);
+      return pick(random, values);
+    }
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const lowest = def.exactLength?.value ?? def.minLength?.value ?? 0;
+      const min = Math.max(lowest, depth >= MAX_DEPTH || context.edgeCases ? 0 : 1);
+      const max = def.exactLength?.value ?? def.maxLength?.value ?? Math.max(min, depth >= MAX_DEPTH ? 0 : 3);
+      return Array.from({ length: integer(random, min, max) }, () => generate(def.type, context, depth + 1));
+    }
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return def.items.map((item) => generate(item, context, depth + 1));
+    case ZodFirstPartyTypeKind.ZodSet: {
+      const values = new Set<unknown>();
+      const size = def.minSize?.value ?? 1;
+      for (let attempt = 0; values.size < size && attempt < size * 10; attempt++) {
+        values.add(generate(def.valueType, context, depth + 1));
+      }
+      return values;
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return depth >= MAX_DEPTH
+        ? {}
+        : { [String(generate(def.keyType, context, depth + 1))]: generate(def.valueType, context, depth + 1) };
+    case ZodFirstPartyTypeKind.ZodMap:
+      return new Map([[generate(def.keyType, context, depth + 1), generate(def.valueType, context, depth + 1)]]);
+    case ZodFirstPartyTypeKind.ZodObject:
+      return Object.fromEntries(
+        Object.entries((schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>)
+          .filter(([, value]) => depth < MAX_DEPTH || !value.isOptional())
+          .map(([key, value]) => [key, generate(value, context, depth + 1)])
+          .filter(([, value]) => value !== undefined)
+      );
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return generate(pick(random, def.options), context, depth + 1);
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return generate(pick(random, def.options), context, depth + 1);
+    case ZodFirstPartyTypeKind.ZodIntersection: {
+      const left = generate(def.left, context, depth + 1);
+      const right = generate(def.right, context, depth + 1);
+      return isRecord(left) && isRecord(right) ? { ...left, ...right } : right;
+    }
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return context.edgeCases && random() < 0.3 ? undefined : generate(def.innerType, context, depth);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return context.edgeCases && random() < 0.25 ? null : generate(def.innerType, context, depth);
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return generate(def.innerType, context, depth);
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return def.defaultValue();
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return generate(def.type, context, depth);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return generate(def.schema, context, depth);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return generate(def.in, context, depth);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return depth >= MAX_DEPTH ? undefined : generate(def.getter(), context, depth + 1);
+    case ZodFirstPartyTypeKind.ZodPromise:
+      return Promise.resolve(generate(def.type, context, depth + 1));
+    default:
+      return undefined;
+  }
+}
+
+function generateString(checks: readonly z.ZodStringCheck[], { random, edgeCases }: GenerateContext): string {
+  const check = <TKind extends z.ZodStringCheck['kind']>(kind: TKind) => findCheck(checks, kind);
+  const word = pick(random, WORDS);
+  const time = new Date(BASE_TIME + integer(random, 0, 365 * 86_400) * 1000).toISOString();
+
+  if (check('email')) return `${word}.${integer(random, 1, 999)}@example.com`;
+  if (check('uuid')) return uuid(random);
+  if (check('url')) return `https://example.com/${word}`;
+  if (check('datetime')) return time;
+  if (check('date')) return time.slice(0, 10);
+  if (check('time')) return time.slice(11, 19);
+  const ip = check('ip');
+  if (ip) {
+    return ip.version === 'v6' ? `2001:db8::${integer(random, 1, 0xffff).toString(16)}` : `192.0.2.${integer(random, 1, 254)}`;
+  }
+
+  const exact = check('length')?.value;
+  const min = exact ?? check('min')?.value ?? 0;
+  const max = exact ?? check('max')?.value;
+  const edge = edgeCases ? random() : 1;
+
+  if (edge < 0.25) return fill(random, min);
+  if (edge < 0.4 && max !== undefined) return fill(random, max);
+
+  return fill(random, Math.min(Math.max(min, 4 + integer(random, 0, 16)), max ?? Infinity));
+}
+
+function fill(random: Random, length: number): string {
+  let value = '';
+  while (value.length < length) value += `${value ? '-' : ''}${pick(random, WORDS)}`;
+  return value.slice(0, length);
+}
+
+function generateNumber(checks: readonly z.ZodNumberCheck[], { random, edgeCases }: GenerateContext): number {
+  const isInteger = findCheck(checks, 'int') !== undefined;
+  const step = findCheck(checks, 'multipleOf')?.value;
+  const lower = findCheck(checks, 'min');
+  const upper = findCheck(checks, 'max');
+  const epsilon = isInteger ? 1 : 0.01;
+
+  const max = upper?.value === undefined ? undefined : upper.value - (upper.inclusive ? 0 : epsilon);
+  const min =
+    lower?.value === undefined
+      ? max === undefined || max >= 0
+        ? 0
+        : max - 1000
+      : lower.value + (lower.inclusive ? 0 : epsilon);
+
+  const edge = edgeCases ? random() : 1;
+  if (edge < 0.2) return pickNumber(random, min, min, isInteger, step);
+  if (edge < 0.4 && max !== undefined) return pickNumber(random, max, max, isInteger, step);
+  if (edge < 0.5 && min <= 0 && (max ?? 0) >= 0) return 0;
+
+  return pickNumber(random, min, max ?? min + 1000, isInteger, step);
+}
+
+function pickNumber(random: Random, min: number, max: number, isInteger: boolean, step: number | undefined): number {
+  if (step) {
+    const first = Math.ceil(min / step);
+    return integer(random, first, Math.max(first, Math.floor(max / step))) * step;
+  }
+
+  const value = min + random() * Math.max(0, max - min);
+  return isInteger ? Math.min(Math.ceil(value), Math.floor(max)) : Math.round(value * 100) / 100;
+}
+
+function uuid(random: Random): string {
+  const hex = Array.from({ length: 32 }, () => integer(random, 0, 15).toString(16));
+  hex[12] = '4';
+  hex[16] = '89ab'[integer(random, 0, 3)] as string;
+  const joined = hex.join('');
+  return `${joined.slice(0, 8)}-${joined.slice(8, 12)}-${joined.slice(12, 16)}-${joined.slice(16, 20)}-${joined.slice(20)}`;
+}
+
+function integer(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(random: Random, values: readonly T[]): T {
+  return values[Math.floor(random() * values.length)] as T;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,189 @@
+import express from 'express';
+import type { Application, RequestHandler } from 'express';
+import type { RouteDefinition, ResponseInputOf, ResponseSchemas } from '../types';
+import type { InferRouteMap, RouteMap, TypedRouter } from '../router/TypedRouter';
+import type { RouteMethod } from '../router/methods';
+import type { InferResponses } from '../validation/inference';
+import type { ValidationErrorStrategy } from '../validation/errors';
+import { createValidationMiddleware } from '../validation/middleware';
+import type { ValidationSchemas } from '../validation/middleware';
+import { createMultipartMiddleware } from '../multipart/middleware';
+import { flattenRoutes } from '../router/registry';
+import { resolveResponseSchema, responseContentType } from '../response/schema';
+import { toResponseOutput } from '../response/output';
+import { toJsonValue } from '../response/wire';
+import { createRandom, generate, hashSeed } from './fake';
+import type { Random } from './fake';
+
+type AnyRouteDefinition = RouteDefinition<any, any, any, any, any, any, any, any>;
+
+interface MockOverrideFields {
+  readonly headers?: Readonly<Record<string, string>>;
+}
+
+export type MockRouteOverride<TResponses> = TResponses extends ResponseSchemas
+  ? [keyof TResponses] extends [never]
+    ? MockOverrideFields & { readonly status?: number; readonly example?: unknown }
+    : {
+        [S in keyof TResponses & number]: MockOverrideFields & {
+          readonly status?: S;
+          readonly example?: ResponseInputOf<TResponses[S]>;
+        };
+      }[keyof TResponses & number]
+  : MockOverrideFields & { readonly status?: number; readonly example?: unknown };
+
+export type MockOverrides<TRoutes extends RouteMap> = {
+  readonly [M in keyof TRoutes]?: {
+    readonly [P in keyof TRoutes[M]]?: MockRouteOverride<InferResponses<Extract<TRoutes[M][P], AnyRouteDefinition>>>;
+  };
+};
+
+export interface MockAppOptions<TRoutes extends RouteMap> {
+  readonly seed?: number;
+  readonly overrides?: MockOverrides<TRoutes>;
+  readonly validationErrors?: ValidationErrorStrategy;
+}
+
+interface MockRoute {
+  readonly method: RouteMethod;
+  readonly path: string;
+  readonly definition: AnyRouteDefinition;
+}
+
+interface AnyMockOverride extends MockOverrideFields {
+  readonly status?: number;
+  readonly example?: unknown;
+}
+
+/**
+ * Builds an Express app that serves the routes of a typed router, or of route
+ * definitions keyed by method and path, without their handlers. Requests are
+ * validated against the route schemas and answered with data generated from
+ * the declared responses. The same seed and URL always produce the same data.
+ */
+export function createMockApp<TRouter extends TypedRouter<any>>(
+  router: TRouter,
+  options?: MockAppOptions<InferRouteMap<TRouter>>
+): Application;
+export function createMockApp<const TRoutes extends RouteMap>(
+  routes: TRoutes,
+  options?: MockAppOptions<TRoutes>
+): Application;
+export function createMockApp(source: TypedRouter<any> | RouteMap, options: MockAppOptions<any> = {}): Application {
+  const app = express();
+  app.use(express.json(), express.urlencoded({ extended: true }));
+
+  const routes: MockRoute[] =
+    typeof source === 'function'
+      ? flattenRoutes(source)
+      : Object.entries(source).flatMap(([method, paths]) =>
+          Object.entries(paths ?? {}).map(([path, definition]) => ({
+            method: method as RouteMethod,
+            path,
+            definition: definition as AnyRouteDefinition,
+          }))
+        );
+
+  routes.forEach(({ method, path, definition }) => {
+    const overrides = options.overrides as Record<string, Record<string, AnyMockOverride> | undefined> | undefined;
+    const override = overrides?.[method]?.[path] ?? {};
+    const middleware = validationMiddleware(definition, options.validationErrors);
+
+    app[method](path, ...middleware, mockResponder(method, path, definition, override, options.seed ?? 1));
+  });
+
+  return app;
+}
+
+function validationMiddleware(
+  definition: AnyRouteDefinition,
+  strategy: ValidationErrorStrategy | undefined
+): RequestHandler[] {
+  const { body, query, params, headers, cookies, files } = definition.schemas;
+  const schemas: ValidationSchemas = {
+    ...(body ? { body } : {}),
+    ...(query ? { query } : {}),
+    ...(params ? { params } : {}),
+    ...(headers ? { headers } : {}),
+    ...(cookies ? { cookies } : {}),
+    ...(files ? { files } : {}),
+  };
+  const onError = strategy ?? definition.options.validationErrors;
+
+  return [
+    ...(files ? [createMultipartMiddleware(files)] : []),
+    ...(Object.keys(schemas).length > 0 ? [createValidationMiddleware(schemas, onError ? { onError } : {})] : []),
+  ];
+}
+
+function mockResponder(
+  method: RouteMethod,
+  path: string,
+  definition: AnyRouteDefinition,
+  override: AnyMockOverride,
+  seed: number
+): RequestHandler {
+  const responses = (definition.schemas.response ?? {}) as ResponseSchemas;
+  const status = override.status ?? defaultStatus(responses);
+  const entry = responses[status];
+
+  return (req, res) => {
+    const random = createRandom(hashSeed(seed, method, path, req.originalUrl));
+    res.status(status);
+
+    if (!entry) {
+      if (override.headers) res.set(override.headers);
+      if (override.example === undefined) res.end();
+      else res.json(override.example);
+      return;
+    }
+
+    const resolved = resolveResponseSchema(entry);
+    res.set(override.headers ?? (resolved.headers ? headerValues(generate(resolved.headers, { random }, 0)) : {}));
+
+    const example = 'example' in override ? override.example : resolved.body && generate(resolved.body, { random }, 0);
+    const contentType = responseContentType(resolved);
+
+    switch (resolved.content) {
+      case 'json':
+        // Examples are generated from the schema's input side, so transforms still run; bigints
+        // that are left are sent as integer strings, the form clients receive them in
+        res.json(toJsonValue(resolved.body ? toResponseOutput(resolved.body, example) : example));
+        return;
+      case 'text':
+        res.type(contentType ?? 'text/plain').send(String(example ?? 'mock'));
+        return;
+      case 'binary':
+        res.type(contentType ?? 'application/octet-stream').send(binaryExample(example, random));
+        return;
+      case 'empty':
+        res.end();
+    }
+  };
+}
+
+// Successful responses are preferred, lowest status first
+function defaultStatus(responses: ResponseSchemas): number {
+  const statuses = Object.keys(responses)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  return statuses.find((status) => status >= 200 && status < 300) ?? statuses[0] ?? 204;
+}
+
+function headerValues(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null) return {};
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .map(([name, item]) => [name, item instanceof Date ? item.toUTCString() : String(item)])
+  );
+}
+
+function binaryExample(example: unknown, random: Random): Buffer {
+  if (Buffer.isBuffer(example)) return example;
+  if (example instanceof Uint8Array || typeof example === 'string') return Buffer.from(example);
+
+  return Buffer.from(Array.from({ length: 16 }, () => Math.floor(random() * 256)));
+}
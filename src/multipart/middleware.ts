@@ -0,0 +1,137 @@
+import type { Request, RequestHandler } from 'express';
+import type { z } from 'zod';
+import type { FileFieldSchema, FileSchemas, UploadedFile } from '../types';
+import { MultipartParseError, multipartBoundary, parseMultipart, readRequestBody } from './parser';
+
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 10;
+const FIELDS_ALLOWANCE = 1024 * 1024;
+
+interface ReceivedUploads {
+  readonly files: Readonly<Record<string, UploadedFile[]>>;
+  readonly error?: string;
+}
+
+export type UploadValidationResult =
+  | { readonly success: true; readonly data: Record<string, UploadedFile | UploadedFile[]> }
+  | { readonly success: false; readonly issues: z.ZodIssue[] };
+
+const received = new WeakMap<Request, ReceivedUploads>();
+
+/**
+ * Buffers and parses `multipart/form-data` requests. Text fields replace
+ * `req.body`; files are kept aside until `validateUploads()` checks them
+ * against the route's file schemas. The body is capped at the total size the
+ * file schemas allow, plus 1 MiB for text fields.
+ */
+export function createMultipartMiddleware(files: FileSchemas): RequestHandler {
+  const limit = Object.values(files).reduce(
+    (total, schema) => total + (schema.maxSize ?? DEFAULT_MAX_FILE_SIZE) * maxFiles(schema),
+    FIELDS_ALLOWANCE
+  );
+
+  return (req, _res, next): void => {
+    if (!req.is('multipart/form-data') || req.readableEnded) {
+      next();
+      return;
+    }
+
+    const boundary = multipartBoundary(req.get('Content-Type'));
+    if (!boundary) {
+      received.set(req, { files: {}, error: 'Missing multipart boundary' });
+      next();
+      return;
+    }
+
+    readRequestBody(req, limit)
+      .then((body) => {
+        const fields: Record<string, unknown> = {};
+        const uploads: Record<string, UploadedFile[]> = {};
+
+        parseMultipart(body, boundary).forEach((part) => {
+          if (part.filename === undefined) {
+            appendField(fields, part.name, part.data.toString('utf8'));
+          } else if (part.filename !== '' || part.data.length > 0) {
+            // Browsers send an empty, unnamed part for file inputs left blank
+            (uploads[part.name] ??= []).push({
+              fieldName: part.name,
+              originalName: part.filename,
+              mimeType: part.contentType ?? 'application/octet-stream',
+              size: part.data.length,
+              buffer: part.data,
+            });
+          }
+        });
+
+        req.body = fields;
+        received.set(req, { files: uploads });
+      })
+      .catch((error: unknown) => {
+        if (!(error instanceof MultipartParseError)) throw error;
+        received.set(req, { files: {}, error: error.message });
+      })
+      .then(() => next(), next);
+  };
+}
+
+export function validateUploads(files: FileSchemas, req: Request): UploadValidationResult {
+  const { files: uploads = {}, error } = received.get(req) ?? {};
+  if (error) return { success: false, issues: [issue([], error)] };
+
+  const issues: z.ZodIssue[] = [];
+  const data: Record<string, UploadedFile | UploadedFile[]> = {};
+
+  Object.keys(uploads).forEach((name) => {
+    if (!files[name]) issues.push(issue([name], 'Unexpected file field'));
+  });
+
+  Object.entries(files).forEach(([name, schema]) => {
+    const list = uploads[name] ?? [];
+    const maxCount = schema.multiple ? (schema.maxCount ?? Infinity) : 1;
+
+    if (schema.required && list.length === 0) issues.push(issue([name], 'File is required'));
+    if (list.length > maxCount) issues.push(issue([name], `Expected at most ${maxCount} file(s)`));
+
+    list.forEach((file, index) => {
+      const path = schema.multiple ? [name, index] : [name];
+
+      if (schema.maxSize !== undefined && file.size > schema.maxSize) {
+        issues.push(issue(path, `File exceeds ${schema.maxSize} bytes`));
+      }
+      if (schema.mimeTypes && !schema.mimeTypes.some((type) => matchesMimeType(file.mimeType, type))) {
+        issues.push(issue(path, `Unsupported file type ${file.mimeType}`));
+      }
+    });
+
+    if (schema.multiple) {
+      data[name] = list;
+    } else if (list[0]) {
+      data[name] = list[0];
+    }
+  });
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data };
+}
+
+function maxFiles(schema: FileFieldSchema): number {
+  return schema.multiple ? (schema.maxCount ?? DEFAULT_MAX_FILES) : 1;
+}
+
+function appendField(fields: Record<string, unknown>, name: string, value: string): void {
+  const existing = fields[name];
+
+  if (existing === undefined) {
+    fields[name] = value;
+  } else {
+    fields[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+  }
+}
+
+function matchesMimeType(mimeType: string, pattern: string): boolean {
+  const type = mimeType.split(';')[0]?.trim().toLowerCase() ?? '';
+  return pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern.toLowerCase();
+}
+
+function issue(path: Array<string | number>, message: string): z.ZodIssue {
+  return { code: 'custom', path, message };
+}
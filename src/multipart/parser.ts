@@ -0,0 +1,89 @@
+import type { Request } from 'express';
+
+export interface MultipartPart {
+  readonly name: string;
+  readonly filename?: string;
+  readonly contentType?: string;
+  readonly data: Buffer;
+}
+
+export class MultipartParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MultipartParseError';
+  }
+}
+
+export function multipartBoundary(contentType: string | undefined): string | undefined {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType ?? '');
+  return match?.[1] ?? match?.[2]?.trim();
+}
+
+export function readRequestBody(req: Request, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer): void => {
+      size += chunk.length;
+
+      if (size > limit) {
+        // Keep draining the request so the error response can still be sent
+        req.off('data', onData);
+        req.resume();
+        reject(new MultipartParseError(`Multipart body exceeds ${limit} bytes`));
+        return;
+      }
+
+      chunks.push(chunk);
+    };
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] {
+  const delimiter = `--${boundary}`;
+  const parts: MultipartPart[] = [];
+  let position = body.indexOf(delimiter);
+
+  if (position === -1) throw new MultipartParseError('Multipart boundary not found');
+
+  for (;;) {
+    position += delimiter.length;
+    if (body.subarray(position, position + 2).toString() === '--') return parts;
+
+    const headerEnd = body.indexOf('\r\n\r\n', position);
+    const next = headerEnd === -1 ? -1 : body.indexOf(`\r\n${delimiter}`, headerEnd + 4);
+    if (next === -1) throw new MultipartParseError('Malformed multipart body');
+
+    const headers = parseHeaders(body.subarray(position, headerEnd).toString('utf8'));
+    const disposition = headers['content-disposition'] ?? '';
+    const name = /\bname="([^"]*)"/i.exec(disposition)?.[1];
+    const filename = /\bfilename="([^"]*)"/i.exec(disposition)?.[1];
+
+    if (name === undefined) throw new MultipartParseError('Multipart part without a field name');
+
+    parts.push({
+      name,
+      ...(filename !== undefined ? { filename } : {}),
+      ...(headers['content-type'] ? { contentType: headers['content-type'] } : {}),
+      data: body.subarray(headerEnd + 4, next),
+    });
+
+    position = next + 2;
+  }
+}
+
+function parseHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  raw.split('\r\n').forEach((line) => {
+    const index = line.indexOf(':');
+    if (index > 0) headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+  });
+
+  return headers;
+}
@@ -0,0 +1,254 @@
+import { STATUS_CODES } from 'node:http';
+import type { z } from 'zod';
+import type {
+  FileSchemas,
+  RequestBodySchema,
+  RequestBodySchemas,
+  ResponseSchemas,
+  RouteDefinition,
+  RouteMeta,
+} from '../types';
+import type { TypedRouter } from '../router/TypedRouter';
+import type { Guard } from '../guards/guard';
+import { HTTP_METHODS } from '../router/methods';
+import { flattenRoutes } from '../router/registry';
+import { isZodSchema } from '../validation/body';
+import { resolveResponseSchema, responseContentType } from '../response/schema';
+import type { ResolvedResponse } from '../response/schema';
+import { zodToJsonSchema } from './jsonSchema';
+import type { JsonSchema } from './jsonSchema';
+import { normalizeVersion } from '../versioning/versioning';
+
+export interface OpenApiInfo {
+  readonly title: string;
+  readonly version: string;
+  readonly description?: string;
+}
+
+export interface OpenApiDocumentOptions {
+  readonly info: OpenApiInfo;
+  readonly servers?: ReadonlyArray<{ readonly url: string; readonly description?: string }>;
+  // Documents one API version; routes declaring another version are left out
+  readonly version?: string;
+}
+
+export interface OpenApiParameter {
+  readonly name: string;
+  readonly in: 'path' | 'query' | 'header' | 'cookie';
+  readonly required: boolean;
+  readonly schema: JsonSchema;
+}
+
+export interface OpenApiHeader {
+  readonly required: boolean;
+  readonly schema: JsonSchema;
+}
+
+export interface OpenApiResponse {
+  readonly description: string;
+  readonly headers?: Record<string, OpenApiHeader>;
+  readonly content?: Record<string, { readonly schema: JsonSchema }>;
+}
+
+export interface OpenApiOperation {
+  readonly operationId?: string;
+  readonly summary?: string;
+  readonly description?: string;
+  readonly tags?: string[];
+  readonly deprecated?: boolean;
+  readonly parameters?: OpenApiParameter[];
+  readonly requestBody?: {
+    readonly required: boolean;
+    readonly content: Record<string, { readonly schema: JsonSchema }>;
+  };
+  readonly responses: Record<string, OpenApiResponse>;
+  readonly security?: Array<Record<string, string[]>>;
+  readonly 'x-guards'?: string[];
+}
+
+export interface OpenApiDocument {
+  readonly openapi: '3.1.0';
+  readonly info: OpenApiInfo;
+  readonly servers?: OpenApiDocumentOptions['servers'];
+  readonly paths: Record<string, Record<string, OpenApiOperation>>;
+  readonly components?: { readonly securitySchemes: Record<string, Readonly<Record<string, unknown>>> };
+}
+
+export function generateOpenApiDocument(router: TypedRouter<any>, options: OpenApiDocumentOptions): OpenApiDocument {
+  const paths: Record<string, Record<string, OpenApiOperation>> = {};
+  const securitySchemes: Record<string, Readonly<Record<string, unknown>>> = {};
+
+  const version = options.version === undefined ? undefined : normalizeVersion(options.version);
+
+  flattenRoutes(router).forEach(({ method, path, definition, version: routeVersion }) => {
+    if (version !== undefined && routeVersion !== undefined && routeVersion !== version) return;
+
+    definition.schemas.guards?.forEach((guard: Guard<any, any>) => {
+      if (guard.securityScheme) securitySchemes[guard.name] = guard.securityScheme;
+    });
+
+    const template = toOpenApiPath(path);
+    const operation = createOperation(path, definition);
+
+    if (method === 'all') {
+      // Explicitly registered methods on the same path take precedence over `all()`
+      const expanded = Object.fromEntries(HTTP_METHODS.map((httpMethod) => [httpMethod, operation]));
+      paths[template] = { ...expanded, ...paths[template] };
+    } else {
+      paths[template] = { ...paths[template], [method]: operation };
+    }
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: options.info,
+    ...(options.servers ? { servers: options.servers } : {}),
+    paths,
+    ...(Object.keys(securitySchemes).length > 0 ? { components: { securitySchemes } } : {}),
+  };
+}
+
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)(\([^)]*\))?\??/g, '{$1}');
+}
+
+function createOperation(path: string, definition: RouteDefinition): OpenApiOperation {
+  const { body, query, params, headers, cookies, files, response, guards = [], meta = {} } = definition.schemas;
+  const parameters = [
+    ...pathParameters(path, params),
+    ...namedParameters('query', query),
+    ...namedParameters('header', headers),
+    ...namedParameters('cookie', cookies),
+  ];
+  const responses: Record<string, OpenApiResponse> = {};
+
+  Object.entries((response ?? {}) as ResponseSchemas).forEach(([status, entry]) => {
+    const schema = resolveResponseSchema(entry);
+    const headers = responseHeaders(schema.headers);
+    const contentType = responseContentType(schema);
+
+    responses[status] = {
+      description: STATUS_CODES[Number(status)] ?? `Status ${status}`,
+      ...(Object.keys(headers).length > 0 ? { headers } : {}),
+      ...(contentType ? { content: { [contentType]: { schema: responseBodySchema(schema) } } } : {}),
+    };
+  });
+
+  if (Object.keys(responses).length === 0) {
+    responses.default = { description: 'Default response' };
+  }
+
+  return {
+    ...operationMeta(meta),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body || files ? { requestBody: requestBody(body, files) } : {}),
+    responses,
+    ...(guards.length > 0 ? guardMetadata(guards) : {}),
+  };
+}
+
+function operationMeta(meta: RouteMeta): Partial<OpenApiOperation> {
+  return {
+    ...(meta.operationId ? { operationId: meta.operationId } : {}),
+    ...(meta.summary ? { summary: meta.summary } : {}),
+    ...(meta.description ? { description: meta.description } : {}),
+    ...(meta.tags && meta.tags.length > 0 ? { tags: [...meta.tags] } : {}),
+    ...(meta.deprecated ? { deprecated: true } : {}),
+  };
+}
+
+// Only guards that describe a security scheme become OpenAPI requirements; all of them are listed in x-guards
+function guardMetadata(guards: readonly Guard<any, any>[]): Pick<OpenApiOperation, 'security' | 'x-guards'> {
+  const security = guards
+    .filter((guard) => guard.securityScheme)
+    .map((guard) => ({ [guard.name]: [...(guard.scopes ?? [])] }));
+
+  return {
+    ...(security.length > 0 ? { security } : {}),
+    'x-guards': guards.map((guard) => guard.name),
+  };
+}
+
+function requestBody(
+  body: RequestBodySchema | undefined,
+  files: FileSchemas | undefined
+): NonNullable<OpenApiOperation['requestBody']> {
+  // A single body schema describes the multipart text fields when the route accepts files
+  const defaultMediaType = files ? 'multipart/form-data' : 'application/json';
+  const schemas: RequestBodySchemas = !body ? {} : isZodSchema(body) ? { [defaultMediaType]: body } : body;
+  const content: Record<string, { readonly schema: JsonSchema }> = Object.fromEntries(
+    Object.entries(schemas).map(([mediaType, schema]) => [mediaType, { schema: zodToJsonSchema(schema) }])
+  );
+
+  if (files) {
+    content['multipart/form-data'] = { schema: multipartSchema(content['multipart/form-data']?.schema, files) };
+  }
+
+  return {
+    required:
+      Object.values(schemas).some((schema) => !schema.isOptional()) ||
+      Object.values(files ?? {}).some((file) => file.required === true),
+    content,
+  };
+}
+
+function multipartSchema(fields: JsonSchema | undefined, files: FileSchemas): JsonSchema {
+  const properties: Record<string, JsonSchema> = { ...(fields?.properties as Record<string, JsonSchema> | undefined) };
+  const required = [...((fields?.required as string[] | undefined) ?? [])];
+
+  Object.entries(files).forEach(([name, schema]) => {
+    const file: JsonSchema = { type: 'string', format: 'binary' };
+
+    properties[name] = schema.multiple
+      ? { type: 'array', items: file, ...(schema.maxCount !== undefined ? { maxItems: schema.maxCount } : {}) }
+      : file;
+    if (schema.required) required.push(name);
+  });
+
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+function pathParameters(path: string, schema: z.ZodTypeAny | undefined): OpenApiParameter[] {
+  const properties = objectProperties(schema);
+
+  return Array.from(path.matchAll(/:(\w+)/g), ([, name = '']) => ({
+    name,
+    in: 'path' as const,
+    required: true,
+    schema: properties[name] ?? { type: 'string' },
+  }));
+}
+
+function namedParameters(
+  location: Exclude<OpenApiParameter['in'], 'path'>,
+  schema: z.ZodTypeAny | undefined
+): OpenApiParameter[] {
+  const properties = objectProperties(schema);
+  const required = new Set((schema ? (zodToJsonSchema(schema).required as string[] | undefined) : undefined) ?? []);
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: required.has(name),
+    schema: property,
+  }));
+}
+
+function responseBodySchema(response: ResolvedResponse): JsonSchema {
+  if (response.body) return zodToJsonSchema(response.body);
+  return response.content === 'binary' ? { type: 'string', format: 'binary' } : { type: 'string' };
+}
+
+function responseHeaders(schema: z.ZodTypeAny | undefined): Record<string, OpenApiHeader> {
+  return Object.fromEntries(
+    namedParameters('header', schema).map(({ name, required, schema: property }) => [
+      name,
+      { required, schema: property },
+    ])
+  );
+}
+
+function objectProperties(schema: z.ZodTypeAny | undefined): Record<string, JsonSchema> {
+  if (!schema) return {};
+  return (zodToJsonSchema(schema).properties as Record<string, JsonSchema> | undefined) ?? {};
+}
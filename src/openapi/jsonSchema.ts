@@ -0,0 +1,175 @@
+import { ZodFirstPartyTypeKind } from 'zod';
+import type { z } from 'zod';
+import { schemaDef } from '../zod/introspect';
+import type { SchemaDef } from '../zod/introspect';
+
+export type JsonSchema = { [key: string]: unknown };
+
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schemaDef(schema);
+  const result = convert(schema, def);
+
+  return def.description ? { ...result, description: def.description } : result;
+}
+
+function convert(schema: z.ZodTypeAny, def: SchemaDef): JsonSchema {
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return convertString(def.checks);
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(def.checks);
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer', format: 'int64' };
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value === null ? { type: 'null' } : { type: typeof def.value, const: def.value };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric enums map their values back to their names; those reverse entries are skipped
+      const values = Object.entries(def.values)
+        .filter(([key]) => typeof def.values[String(def.values[key])] !== 'number')
+        .map(([, value]) => value);
+      return { enum: values };
+    }
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: 'array', items: zodToJsonSchema(def.type) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      if (def.exactLength) {
+        result.minItems = def.exactLength.value;
+        result.maxItems = def.exactLength.value;
+      }
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return {
+        type: 'array',
+        prefixItems: def.items.map(zodToJsonSchema),
+        ...(def.rest ? { items: zodToJsonSchema(def.rest) } : { items: false }),
+      };
+    case ZodFirstPartyTypeKind.ZodSet:
+      return { type: 'array', uniqueItems: true, items: zodToJsonSchema(def.valueType) };
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) };
+    case ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject, def);
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: def.options.map(zodToJsonSchema) };
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [zodToJsonSchema(def.left), zodToJsonSchema(def.right)] };
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [zodToJsonSchema(def.innerType), { type: 'null' }] };
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return zodToJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.type);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return {};
+    case ZodFirstPartyTypeKind.ZodNever:
+      return { not: {} };
+    default:
+      return {};
+  }
+}
+
+function convertString(checks: readonly z.ZodStringCheck[]): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value;
+        break;
+      case 'max':
+        result.maxLength = check.value;
+        break;
+      case 'length':
+        result.minLength = check.value;
+        result.maxLength = check.value;
+        break;
+      case 'email':
+      case 'uuid':
+      case 'date':
+      case 'time':
+        result.format = check.kind;
+        break;
+      case 'ip':
+        if (check.version) result.format = `ip${check.version}`;
+        break;
+      case 'url':
+        result.format = 'uri';
+        break;
+      case 'datetime':
+        result.format = 'date-time';
+        break;
+      case 'regex':
+        result.pattern = check.regex.source;
+        break;
+    }
+  }
+
+  return result;
+}
+
+function convertNumber(checks: readonly z.ZodNumberCheck[]): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer';
+        break;
+      case 'min':
+        result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        result.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return result;
+}
+
+function convertObject(
+  schema: z.AnyZodObject,
+  def: Extract<SchemaDef, { typeName: ZodFirstPartyTypeKind.ZodObject }>
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+    properties[key] = zodToJsonSchema(value);
+    if (!value.isOptional()) required.push(key);
+  }
+
+  const result: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) result.required = required;
+
+  if (schemaDef(def.catchall).typeName !== ZodFirstPartyTypeKind.ZodNever) {
+    result.additionalProperties = zodToJsonSchema(def.catchall);
+  } else if (def.unknownKeys === 'strict') {
+    result.additionalProperties = false;
+  }
+
+  return result;
+}
@@ -0,0 +1,37 @@
+import type { RequestHandler, Response } from 'express';
+import type { ResponseContent, ResponseSchemas } from '../types';
+import { resolveResponseSchema, responseContentType } from './schema';
+
+const declaredResponses = new WeakMap<Response, ResponseSchemas>();
+
+/**
+ * Applies the content type declared for text and binary responses when
+ * `res.send()` is called without one, and remembers the declared responses so
+ * returned handler results are sent the way their status declares.
+ */
+export function createResponseContentMiddleware(responses: ResponseSchemas): RequestHandler {
+  return (_req, res, next): void => {
+    declaredResponses.set(res, responses);
+
+    const send = res.send.bind(res);
+
+    res.send = (body?: unknown) => {
+      const entry = responses[res.statusCode];
+      const resolved = entry ? resolveResponseSchema(entry) : undefined;
+
+      if (resolved && resolved.content !== 'json' && !res.get('Content-Type')) {
+        const contentType = responseContentType(resolved);
+        if (contentType) res.type(contentType);
+      }
+
+      return send(body);
+    };
+
+    next();
+  };
+}
+
+export function declaredResponseContent(res: Response, status: number): ResponseContent {
+  const entry = declaredResponses.get(res)?.[status];
+  return entry ? resolveResponseSchema(entry).content : 'json';
+}
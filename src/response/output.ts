@@ -0,0 +1,244 @@
+import { ZodFirstPartyTypeKind, z } from 'zod';
+import type { RequestHandler } from 'express';
+import type { ResponseSchemas } from '../types';
+import { schemaDef } from '../zod/introspect';
+import type { SchemaDef } from '../zod/introspect';
+import { resolveResponseSchema } from './schema';
+import { toJsonValue } from './wire';
+
+const transforming = new WeakMap<z.ZodTypeAny, boolean>();
+const bigints = new WeakMap<z.ZodTypeAny, boolean>();
+
+/**
+ * Whether parsing a value with the schema can change it: transforms,
+ * preprocessors, pipelines, defaults, catches and coercion all make the
+ * schema's output differ from its input.
+ */
+export function transformsOutput(schema: z.ZodTypeAny): boolean {
+  return inspectCached(transforming, schema, changesValue);
+}
+
+/**
+ * Whether values sent for the schema can contain `bigint`s, which have no
+ * JSON form. Transforms are assumed to, since their output is not declared.
+ */
+export function sendsBigInts(schema: z.ZodTypeAny): boolean {
+  return inspectCached(bigints, schema, containsBigInts);
+}
+
+type Inspection = (def: SchemaDef, visit: (schema: z.ZodTypeAny) => boolean) => boolean;
+
+function inspectCached(cache: WeakMap<z.ZodTypeAny, boolean>, schema: z.ZodTypeAny, inspection: Inspection): boolean {
+  let result = cache.get(schema);
+  if (result === undefined) {
+    result = inspect(schema, new Set(), inspection);
+    cache.set(schema, result);
+  }
+  return result;
+}
+
+function inspect(schema: z.ZodTypeAny, seen: Set<z.ZodTypeAny>, inspection: Inspection): boolean {
+  // Recursive schemas are judged by their first visit
+  if (seen.has(schema)) return false;
+  seen.add(schema);
+  return inspection(schemaDef(schema), (inner) => inspect(inner, seen, inspection));
+}
+
+function changesValue(def: SchemaDef, visit: (schema: z.ZodTypeAny) => boolean): boolean {
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+    case ZodFirstPartyTypeKind.ZodNumber:
+    case ZodFirstPartyTypeKind.ZodBigInt:
+    case ZodFirstPartyTypeKind.ZodDate:
+      return def.coerce || def.checks.some(isTransformingCheck);
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return def.coerce;
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return def.effect.type !== 'refinement' || visit(def.schema);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return true;
+    default:
+      return nestedSchemas(def).some(visit);
+  }
+}
+
+function containsBigInts(def: SchemaDef, visit: (schema: z.ZodTypeAny) => boolean): boolean {
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return true;
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return def.effect.type === 'transform' || visit(def.schema);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return visit(def.out);
+    default:
+      return nestedSchemas(def).some(visit);
+  }
+}
+
+// The schemas a value's parts are parsed with
+function nestedSchemas(def: SchemaDef): readonly z.ZodTypeAny[] {
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodObject:
+      return [...Object.values(def.shape()), def.catchall];
+    case ZodFirstPartyTypeKind.ZodArray:
+      return [def.type];
+    case ZodFirstPartyTypeKind.ZodSet:
+      return [def.valueType];
+    case ZodFirstPartyTypeKind.ZodRecord:
+    case ZodFirstPartyTypeKind.ZodMap:
+      return [def.keyType, def.valueType];
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return def.rest ? [...def.items, def.rest] : def.items;
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return def.options;
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return [def.left, def.right];
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return [def.schema];
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return [def.in, def.out];
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return [def.innerType];
+    case ZodFirstPartyTypeKind.ZodBranded:
+    case ZodFirstPartyTypeKind.ZodPromise:
+      return [def.type];
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return [def.getter()];
+    default:
+      return [];
+  }
+}
+
+// String checks that rewrite the value rather than only testing it
+function isTransformingCheck(check: { kind: string }): boolean {
+  return check.kind === 'trim' || check.kind === 'toLowerCase' || check.kind === 'toUpperCase';
+}
+
+/**
+ * Whether bodies sent for the schema differ from the values handlers pass to
+ * `res.json()`, because the schema transforms them or they contain `bigint`s.
+ */
+export function changesResponseOutput(schema: z.ZodTypeAny): boolean {
+  return transformsOutput(schema) || sendsBigInts(schema);
+}
+
+const outputs = new WeakMap<z.ZodTypeAny, z.ZodTypeAny>();
+
+/**
+ * A schema for the output side of a response schema, the values clients
+ * receive once it has run: defaults and catches become their inner schema,
+ * pipelines their output schema and optional or nullable wrappers keep
+ * wrapping the output. Transform results are not declared, so they are
+ * accepted as sent, along with refinements over them. Schemas without
+ * transforms are their own output schema.
+ */
+export function outputSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (!transformsOutput(schema)) return schema;
+
+  let output = outputs.get(schema);
+  if (!output) {
+    output = toOutputSchema(schema);
+    outputs.set(schema, output);
+  }
+  return output;
+}
+
+function toOutputSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  const def = schemaDef(schema);
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return def.effect.type === 'transform' ? z.unknown() : outputSchema(def.schema);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return outputSchema(def.out);
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return outputSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return outputSchema(def.innerType).optional();
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return outputSchema(def.innerType).nullable();
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return outputSchema(def.type);
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const object = schema as z.AnyZodObject;
+      const shape = Object.fromEntries(Object.entries(def.shape()).map(([key, value]) => [key, outputSchema(value)]));
+      return new z.ZodObject({ ...object._def, shape: () => shape, catchall: outputSchema(def.catchall) });
+    }
+    case ZodFirstPartyTypeKind.ZodArray:
+      return new z.ZodArray({ ...(schema as z.ZodArray<z.ZodTypeAny>)._def, type: outputSchema(def.type) });
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return new z.ZodRecord({ ...(schema as z.ZodRecord)._def, valueType: outputSchema(def.valueType) });
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return new z.ZodTuple({
+        ...(schema as z.AnyZodTuple)._def,
+        items: def.items.map(outputSchema) as z.ZodTupleItems,
+        rest: def.rest && outputSchema(def.rest),
+      });
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return z.union(def.options.map(outputSchema) as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return z.intersection(outputSchema(def.left), outputSchema(def.right));
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return z.lazy(() => outputSchema(def.getter()));
+    default:
+      // Coercion and trim()-style checks leave their own output unchanged
+      return schema;
+  }
+}
+
+/**
+ * Runs a value through the schema so transforms produce the wire format.
+ * Values the schema rejects are returned unchanged.
+ */
+export function toResponseOutput(schema: z.ZodTypeAny, value: unknown): unknown {
+  if (!transformsOutput(schema)) return value;
+
+  const result = schema.safeParse(value);
+  return result.success ? result.data : value;
+}
+
+/**
+ * The body to send for a value: `bigint`s have no JSON form, so they are
+ * written as integer strings, the type `Jsonify` gives them.
+ */
+export function toJsonBody(schema: z.ZodTypeAny, value: unknown): unknown {
+  return sendsBigInts(schema) ? toJsonValue(value) : value;
+}
+
+/**
+ * Replaces `res.json()` so bodies sent for JSON statuses whose schema
+ * transforms its input are sent as parsed by that schema, e.g. a `Date`
+ * declared as `z.date().transform((date) => date.toISOString())`, and
+ * `bigint`s are sent as integer strings.
+ */
+export function createResponseOutputMiddleware(responses: ResponseSchemas): RequestHandler {
+  const schemas = new Map<number, z.ZodTypeAny>();
+
+  Object.entries(responses).forEach(([status, entry]) => {
+    const resolved = resolveResponseSchema(entry);
+    if (resolved.content === 'json' && resolved.body && changesResponseOutput(resolved.body)) {
+      schemas.set(Number(status), resolved.body);
+    }
+  });
+
+  return (_req, res, next): void => {
+    const json = res.json.bind(res);
+
+    res.json = (body?: unknown) => {
+      const schema = schemas.get(res.statusCode);
+      return json(schema ? toJsonBody(schema, toResponseOutput(schema, body)) : body);
+    };
+
+    next();
+  };
+}
@@ -0,0 +1,29 @@
+import type { z } from 'zod';
+import type { ResponseContent, ResponseSchema } from '../types';
+import { isZodSchema } from '../validation/body';
+
+export interface ResolvedResponse {
+  readonly content: ResponseContent;
+  readonly body?: z.ZodTypeAny;
+  readonly headers?: z.ZodTypeAny;
+  readonly contentType?: string;
+}
+
+export function resolveResponseSchema(entry: ResponseSchema): ResolvedResponse {
+  if (isZodSchema(entry)) return { content: 'json', body: entry };
+
+  return { ...entry, content: entry.content ?? 'json' };
+}
+
+export function responseContentType(response: ResolvedResponse): string | undefined {
+  switch (response.content) {
+    case 'json':
+      return 'application/json';
+    case 'text':
+      return response.contentType ?? 'text/plain';
+    case 'binary':
+      return response.contentType ?? 'application/octet-stream';
+    case 'empty':
+      return undefined;
+  }
+}
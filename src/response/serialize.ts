@@ -0,0 +1,209 @@
+import { ZodFirstPartyTypeKind } from 'zod';
+import type { z } from 'zod';
+import type { Application, RequestHandler } from 'express';
+import type { ResponseSchemas } from '../types';
+import { schemaDef } from '../zod/introspect';
+import { resolveResponseSchema } from './schema';
+
+export type Serializer = (value: unknown) => string | undefined;
+
+const stringify: Serializer = (value) => JSON.stringify(value);
+
+/**
+ * Builds a JSON serializer from a response schema. Object properties are
+ * written in schema order and undeclared properties are dropped; values whose
+ * runtime type does not match the schema, unions without a discriminator and
+ * objects that allow unknown keys are written with `JSON.stringify`, so the
+ * output is always valid JSON.
+ */
+export function compileSerializer(schema: z.ZodTypeAny): Serializer {
+  const def = schemaDef(schema);
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return (value) => (typeof value === 'string' ? serializeString(value) : stringify(value));
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return (value) =>
+        typeof value === 'number' ? (Number.isFinite(value) ? String(value) : 'null') : stringify(value);
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return (value) => (typeof value === 'bigint' ? `"${value}"` : stringify(value));
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return (value) => (value === true ? 'true' : value === false ? 'false' : stringify(value));
+    case ZodFirstPartyTypeKind.ZodObject:
+      return compileObject(schema as z.AnyZodObject);
+    case ZodFirstPartyTypeKind.ZodArray:
+      return compileArray(compileSerializer(def.type));
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return compileRecord(compileSerializer(def.valueType));
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return compileDiscriminatedUnion(def.discriminator, def.optionsMap);
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return compileSerializer(def.innerType);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return compileSerializer(def.type);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      // Handlers send the input of a transform, which only refinements describe
+      return def.effect.type === 'refinement' ? compileSerializer(def.schema) : stringify;
+    case ZodFirstPartyTypeKind.ZodLazy: {
+      let inner: Serializer | undefined;
+      return (value) => (inner ??= compileSerializer(def.getter()))(value);
+    }
+    default:
+      return stringify;
+  }
+}
+
+/**
+ * Whether a schema can describe an object with declared properties, the only
+ * values a compiled serializer writes differently from `JSON.stringify`. Lazy
+ * schemas are assumed to, since they are usually recursive object schemas.
+ */
+function containsObjects(schema: z.ZodTypeAny): boolean {
+  const def = schemaDef(schema);
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodObject:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return true;
+    case ZodFirstPartyTypeKind.ZodArray:
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return containsObjects(def.type);
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return containsObjects(def.valueType);
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return containsObjects(def.innerType);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return def.effect.type === 'refinement' && containsObjects(def.schema);
+    default:
+      return false;
+  }
+}
+
+function compileObject(schema: z.AnyZodObject): Serializer {
+  const { unknownKeys, catchall } = schema._def;
+  if (unknownKeys === 'passthrough' || schemaDef(catchall).typeName !== ZodFirstPartyTypeKind.ZodNever) return stringify;
+
+  const entries = Object.entries(schema.shape as z.ZodRawShape);
+  const keys = entries.map(([key]) => key);
+  const prefixes = keys.map((key) => `${JSON.stringify(key)}:`);
+  const serializers = entries.map(([, property]) => compileSerializer(property));
+
+  // Plain concatenation over parallel arrays keeps this on par with JSON.stringify
+  return (value) => {
+    if (!isSerializableObject(value)) return stringify(value);
+
+    let output = '';
+    for (let index = 0; index < keys.length; index++) {
+      const item = value[keys[index] as string];
+      if (item === undefined) continue;
+
+      const text = (serializers[index] as Serializer)(item);
+      if (text === undefined) continue;
+      output = output === '' ? (prefixes[index] as string) + text : output + ',' + prefixes[index] + text;
+    }
+    return '{' + output + '}';
+  };
+}
+
+function compileArray(serializeItem: Serializer): Serializer {
+  return (value) => {
+    if (!Array.isArray(value)) return stringify(value);
+
+    let output = '';
+    for (let index = 0; index < value.length; index++) {
+      const text = serializeItem(value[index]) ?? 'null';
+      output = index === 0 ? text : output + ',' + text;
+    }
+    return '[' + output + ']';
+  };
+}
+
+function compileRecord(serializeValue: Serializer): Serializer {
+  return (value) => {
+    if (!isSerializableObject(value)) return stringify(value);
+
+    let output = '';
+    for (const key of Object.keys(value)) {
+      const text = value[key] === undefined ? undefined : serializeValue(value[key]);
+      if (text !== undefined) output += `${output ? ',' : ''}${JSON.stringify(key)}:${text}`;
+    }
+    return `{${output}}`;
+  };
+}
+
+function compileDiscriminatedUnion(discriminator: string, options: ReadonlyMap<unknown, z.ZodTypeAny>): Serializer {
+  const serializers = new Map(Array.from(options, ([key, option]) => [key, compileSerializer(option)] as const));
+
+  return (value) => {
+    const serialize = isSerializableObject(value) ? serializers.get(value[discriminator]) : undefined;
+    return (serialize ?? stringify)(value);
+  };
+}
+
+// Short strings without characters that need escaping skip the JSON encoder
+const ESCAPED = /[\u0000-\u001f"\\\ud800-\udfff]/;
+
+function serializeString(value: string): string {
+  return value.length < 64 && !ESCAPED.test(value) ? '"' + value + '"' : JSON.stringify(value);
+}
+
+// Objects with their own toJSON() are left to JSON.stringify
+function isSerializableObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as { toJSON?: unknown }).toJSON !== 'function'
+  );
+}
+
+/**
+ * Replaces `res.json()` with serializers compiled from the JSON responses
+ * declared for each status. Undeclared statuses, bodies without object
+ * schemas (nothing to drop, and `JSON.stringify` is faster), and apps that
+ * configure `json replacer`, `json spaces` or `json escape` keep Express's
+ * own serialization.
+ */
+export function createResponseSerializerMiddleware(responses: ResponseSchemas): RequestHandler {
+  const serializers = new Map<number, Serializer>();
+
+  Object.entries(responses).forEach(([status, entry]) => {
+    const resolved = resolveResponseSchema(entry);
+    if (resolved.content === 'json' && resolved.body && containsObjects(resolved.body)) {
+      serializers.set(Number(status), compileSerializer(resolved.body));
+    }
+  });
+
+  return (req, res, next): void => {
+    if (usesJsonSettings(req.app)) {
+      next();
+      return;
+    }
+
+    const json = res.json.bind(res);
+
+    res.json = (body?: unknown) => {
+      const serialize = serializers.get(res.statusCode);
+      if (!serialize) return json(body);
+
+      if (!res.get('Content-Type')) res.set('Content-Type', 'application/json');
+      return res.send(serialize(body));
+    };
+
+    next();
+  };
+}
+
+function usesJsonSettings(app: Application | undefined): boolean {
+  return Boolean(app && (app.get('json replacer') || app.get('json spaces') || app.get('json escape')));
+}
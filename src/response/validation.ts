@@ -0,0 +1,175 @@
+import type { RequestHandler, Response } from 'express';
+import type { z } from 'zod';
+import type { ResponseSchemas } from '../types';
+import { headerInput } from '../validation/headers';
+import { resolveResponseSchema } from './schema';
+import type { ResolvedResponse } from './schema';
+import { toJsonBody, transformsOutput } from './output';
+
+export type ResponseValidationMode = 'strip' | 'log' | 'fail';
+
+export interface ResponseValidationViolation {
+  readonly method: string;
+  readonly path: string;
+  readonly status: number;
+  readonly reason: 'undeclared-status' | 'invalid-body' | 'invalid-headers';
+  readonly issues: readonly z.ZodIssue[];
+}
+
+export class ResponseValidationError extends Error {
+  constructor(readonly violation: ResponseValidationViolation) {
+    super(`Response contract violation on ${violation.method} ${violation.path} (${violation.status}): ${violation.reason}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+export interface ResponseValidationOptions {
+  readonly mode: ResponseValidationMode;
+  readonly logger?: (violation: ResponseValidationViolation) => void;
+}
+
+export type ResponseValidationSetting = ResponseValidationMode | ResponseValidationOptions;
+
+export function resolveResponseValidation(setting: ResponseValidationSetting): ResponseValidationOptions {
+  return typeof setting === 'string' ? { mode: setting } : setting;
+}
+
+const defaultLogger = (violation: ResponseValidationViolation): void => {
+  console.warn(
+    `[express-type-safe-routes] Response contract violation on ${violation.method} ${violation.path} (${violation.status}): ${violation.reason}`,
+    violation.issues
+  );
+};
+
+/**
+ * Intercepts `res.json()`, `res.send()`, `res.sendStatus()` and `res.end()`
+ * and checks the outgoing response against the contract declared for the
+ * current status code: the status must be declared, the body must match its
+ * schema and the headers declared for the status must be set.
+ *
+ * - `log` reports violations and sends the body unchanged.
+ * - `fail` reports violations and replaces the response with a 500.
+ * - `strip` behaves like `fail`, but valid bodies are sent as parsed by the
+ *   schema so undeclared fields never leave the server.
+ *
+ * In every mode, valid bodies for schemas with transforms, defaults or
+ * coercion are sent as parsed, so handlers can send the schema's input type,
+ * and `bigint`s are sent as integer strings.
+ * Bodies that reach `res.send()` or `res.end()` as strings or buffers are
+ * checked as written and sent unchanged; binary and empty bodies are not
+ * checked. Streamed responses are checked when they end, after their headers
+ * were sent, so violations can only be reported.
+ */
+export function createResponseValidationMiddleware(
+  responses: ResponseSchemas,
+  setting: ResponseValidationSetting
+): RequestHandler {
+  const { mode, logger = defaultLogger } = resolveResponseValidation(setting);
+
+  return (req, res, next): void => {
+    const json = res.json.bind(res);
+    const send = res.send.bind(res);
+    const end = res.end.bind(res) as (...args: unknown[]) => Response;
+    // json() calls send(), which calls end(); only the outermost call is checked
+    let checked = false;
+
+    const violationOf = (
+      reason: ResponseValidationViolation['reason'],
+      issues: readonly z.ZodIssue[] = []
+    ): ResponseValidationViolation => ({ method: req.method, path: req.originalUrl, status: res.statusCode, reason, issues });
+
+    const check = (body: unknown, sentAs: 'json' | 'raw'): { violation?: ResponseValidationViolation; output: unknown } => {
+      const entry = responses[res.statusCode];
+      if (!entry) return { violation: violationOf('undeclared-status'), output: body };
+
+      const schema = resolveResponseSchema(entry);
+      // JSON sent for a status declared as text, binary or empty never matches its contract
+      const result =
+        sentAs === 'raw' ? parseSentBody(schema, body) : schema.content === 'json' ? schema.body?.safeParse(body) : undefined;
+      const headers = schema.headers?.safeParse(headerInput(schema.headers, res.getHeaders()));
+
+      if (!result || !result.success) return { violation: violationOf('invalid-body', result ? result.error.issues : []), output: body };
+      if (headers && !headers.success) return { violation: violationOf('invalid-headers', headers.error.issues), output: body };
+
+      if (sentAs === 'raw' || !schema.body) return { output: body };
+      const parsed = mode === 'strip' || transformsOutput(schema.body);
+      return { output: toJsonBody(schema.body, parsed ? result.data : body) };
+    };
+
+    // Reports a violation and answers with a 500 when the mode and the response still allow it
+    const reject = (violation: ResponseValidationViolation): boolean => {
+      logger(violation);
+      if (mode === 'log' || res.headersSent) return false;
+
+      res.status(500).removeHeader('Content-Type');
+      json({ error: 'Response validation failed' });
+      return true;
+    };
+
+    res.json = (body?: unknown) => {
+      if (checked) return json(body);
+      checked = true;
+
+      const { violation, output } = check(body, 'json');
+      if (violation && reject(violation)) return res;
+      return json(output);
+    };
+
+    res.send = (body?: unknown) => {
+      // Objects are sent through res.json()
+      if (checked || isJsonBody(body)) return send(body);
+      checked = true;
+
+      const { violation } = check(body, 'raw');
+      if (violation && reject(violation)) return res;
+      return send(body);
+    };
+
+    res.end = ((...args: unknown[]) => {
+      if (checked) return end(...args);
+      checked = true;
+
+      const [chunk] = args;
+      const { violation } = check(typeof chunk === 'function' ? undefined : chunk, 'raw');
+      if (violation && reject(violation)) return res;
+      return end(...args);
+    }) as Response['end'];
+
+    next();
+  };
+}
+
+// `res.send()` hands numbers, booleans and objects other than buffers to `res.json()`
+function isJsonBody(body: unknown): boolean {
+  return (
+    typeof body === 'number' ||
+    typeof body === 'boolean' ||
+    (typeof body === 'object' && body !== null && !Buffer.isBuffer(body))
+  );
+}
+
+const NOT_JSON: unique symbol = Symbol('not json');
+
+function parseSentBody(schema: ResolvedResponse, body: unknown): z.SafeParseReturnType<unknown, unknown> | undefined {
+  const text = body === undefined || body === null ? '' : Buffer.isBuffer(body) ? body.toString() : String(body);
+
+  switch (schema.content) {
+    case 'json': {
+      // Text that is not JSON fails every JSON schema
+      const value = parseJson(text);
+      return value === NOT_JSON ? undefined : schema.body?.safeParse(value);
+    }
+    case 'text':
+      return schema.body ? schema.body.safeParse(text) : { success: true, data: text };
+    default:
+      return { success: true, data: body };
+  }
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return NOT_JSON;
+  }
+}
@@ -0,0 +1,93 @@
+import { ZodFirstPartyTypeKind } from 'zod';
+import type { z } from 'zod';
+import { schemaDef } from '../zod/introspect';
+
+/**
+ * Converts a received JSON body back into the values a response schema
+ * describes, so it can be checked with the schema itself: ISO strings become
+ * `Date`s and integer strings become `bigint`s wherever the schema expects
+ * them. Anything else is returned as received.
+ */
+export function reviveJson(schema: z.ZodTypeAny, value: unknown): unknown {
+  const def = schemaDef(schema);
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodDate:
+      return typeof value === 'string' ? new Date(value) : value;
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return typeof value === 'string' && /^-?\d+$/.test(value) ? BigInt(value) : value;
+    case ZodFirstPartyTypeKind.ZodObject:
+      return reviveObject(schema as z.AnyZodObject, value);
+    case ZodFirstPartyTypeKind.ZodArray:
+      return Array.isArray(value) ? value.map((item) => reviveJson(def.type, item)) : value;
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return Array.isArray(value)
+        ? value.map((item, index) => {
+            const itemSchema: z.ZodTypeAny | null | undefined = def.items[index] ?? def.rest;
+            return itemSchema ? reviveJson(itemSchema, item) : item;
+          })
+        : value;
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return isPlainObject(value)
+        ? Object.fromEntries(Object.entries(value).map(([key, item]) => [key, reviveJson(def.valueType, item)]))
+        : value;
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return reviveUnion(def.options, value);
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return reviveJson(def.right, reviveJson(def.left, value));
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return reviveJson(def.innerType, value);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return reviveJson(def.type, value);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return reviveJson(def.schema, value);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return reviveJson(def.in, value);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return reviveJson(def.getter(), value);
+    default:
+      return value;
+  }
+}
+
+function reviveObject(schema: z.AnyZodObject, value: unknown): unknown {
+  if (!isPlainObject(value)) return value;
+
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  const { catchall } = schema._def;
+  const revived: Record<string, unknown> = {};
+
+  Object.entries(value).forEach(([key, item]) => {
+    const property = Object.prototype.hasOwnProperty.call(shape, key) ? shape[key] : catchall;
+    revived[key] = property ? reviveJson(property, item) : item;
+  });
+
+  return revived;
+}
+
+// The first option that accepts the revived value decides how it is revived
+function reviveUnion(options: readonly z.ZodTypeAny[], value: unknown): unknown {
+  for (const option of options) {
+    const revived = reviveJson(option, value);
+    if (option.safeParse(revived).success) return revived;
+  }
+  return value;
+}
+
+/**
+ * The value as it looks after a JSON round trip, with `bigint`s written as
+ * integer strings.
+ */
+export function toJsonValue(value: unknown): unknown {
+  if (value === undefined) return value;
+  return JSON.parse(JSON.stringify(value, (_key, item: unknown) => (typeof item === 'bigint' ? item.toString() : item)));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,69 +1,387 @@
 import type { RequestHandler } from 'express';
 import type { z } from 'zod';
-import type { ResponseSchemas, TypedHandler } from '../types';
-import { createValidationMiddleware } from '../validation/middleware';
+import type {
+  FileSchemas,
+  RequestBodyInputOf,
+  RequestBodyOf,
+  RequestBodySchema,
+  RequestInput,
+  ResponseSchema,
+  ResponseSchemas,
+  RouteDefinition,
+  RouteHandlers,
+  RouteMeta,
+  RouteOptions,
+  TypedHandler,
+  UploadedFilesOf,
+} from '../types';
+import type { ResponseValidationSetting } from '../response/validation';
+import type { ValidationErrorStrategy } from '../validation/errors';
+import type { Guard, WithGuardResponses } from '../guards/guard';
+import type { ContextMiddleware } from '../context/context';
+import type {
+  InferBody,
+  InferBodyInput,
+  InferContext,
+  InferCookies,
+  InferCookiesInput,
+  InferFiles,
+  InferHeaders,
+  InferHeadersInput,
+  InferParams,
+  InferParamsInput,
+  InferQuery,
+  InferQueryInput,
+  InferResponses,
+} from '../validation/inference';
+import { route } from './route';
+import { mergeMeta, mergeRouteSchemas } from './compose';
+import type { MergeFiles, MergeInferred, MergeMaps } from './compose';
+import { wrapHandler } from './handler';
+
+type AsResponseSchemas<T> = T extends ResponseSchemas ? T : never;
+
+type WithInput<TInput extends RequestInput, TKey extends keyof RequestInput, TValue> = Omit<TInput, TKey> & {
+  readonly [K in TKey]: TValue;
+};
+
+type ExtendInput<TInput extends RequestInput, TRoute extends RouteDefinition<any, any, any, any, any, any, any, any>> = RequestInput<
+  MergeInferred<TInput['body'], InferBodyInput<TRoute>>,
+  MergeInferred<TInput['query'], InferQueryInput<TRoute>>,
+  MergeInferred<TInput['params'], InferParamsInput<TRoute>>,
+  MergeInferred<TInput['headers'], InferHeadersInput<TRoute>>,
+  MergeInferred<TInput['cookies'], InferCookiesInput<TRoute>>
+>;
 
 export class RouteBuilder<
   TBody = unknown,
   TQuery = unknown,
   TParams = unknown,
-  TResponse extends ResponseSchemas = {}
+  TResponse extends ResponseSchemas = {},
+  THeaders = unknown,
+  TCookies = unknown,
+  TFiles = unknown,
+  TContext = unknown,
+  TGuardResponses = unknown,
+  TInput extends RequestInput = RequestInput
 > {
-  private bodySchema?: z.ZodTypeAny;
+  private bodySchema?: RequestBodySchema;
   private querySchema?: z.ZodTypeAny;
   private paramsSchema?: z.ZodTypeAny;
+  private headersSchema?: z.ZodTypeAny;
+  private cookiesSchema?: z.ZodTypeAny;
+  private fileSchemas?: FileSchemas;
+  private guardList: Guard<any, any>[] = [];
+  private contextMiddleware: ContextMiddleware<any>[] = [];
+  private routeMeta?: RouteMeta;
   private responseSchemas: ResponseSchemas = {};
   private middlewares: RequestHandler[] = [];
+  private routeOptions: RouteOptions = {};
 
-  body<TSchema extends z.ZodTypeAny>(schema: TSchema): RouteBuilder<z.infer<TSchema>, TQuery, TParams, TResponse> {
+  body<TSchema extends RequestBodySchema>(
+    schema: TSchema
+  ): RouteBuilder<RequestBodyOf<TSchema>, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TGuardResponses, WithInput<TInput, 'body', RequestBodyInputOf<TSchema>>> {
     this.bodySchema = schema;
-    return this as unknown as RouteBuilder<z.infer<TSchema>, TQuery, TParams, TResponse>;
+    return this as unknown as RouteBuilder<
+      RequestBodyOf<TSchema>,
+      TQuery,
+      TParams,
+      TResponse,
+      THeaders,
+      TCookies,
+      TFiles,
+      TContext,
+      TGuardResponses,
+      WithInput<TInput, 'body', RequestBodyInputOf<TSchema>>
+    >;
   }
 
-  query<TSchema extends z.ZodTypeAny>(schema: TSchema): RouteBuilder<TBody, z.infer<TSchema>, TParams, TResponse> {
+  query<TSchema extends z.ZodTypeAny>(
+    schema: TSchema
+  ): RouteBuilder<TBody, z.infer<TSchema>, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TGuardResponses, WithInput<TInput, 'query', z.input<TSchema>>> {
     this.querySchema = schema;
-    return this as unknown as RouteBuilder<TBody, z.infer<TSchema>, TParams, TResponse>;
+    return this as unknown as RouteBuilder<
+      TBody,
+      z.infer<TSchema>,
+      TParams,
+      TResponse,
+      THeaders,
+      TCookies,
+      TFiles,
+      TContext,
+      TGuardResponses,
+      WithInput<TInput, 'query', z.input<TSchema>>
+    >;
   }
 
-  params<TSchema extends z.ZodTypeAny>(schema: TSchema): RouteBuilder<TBody, TQuery, z.infer<TSchema>, TResponse> {
+  params<TSchema extends z.ZodTypeAny>(
+    schema: TSchema
+  ): RouteBuilder<TBody, TQuery, z.infer<TSchema>, TResponse, THeaders, TCookies, TFiles, TContext, TGuardResponses, WithInput<TInput, 'params', z.input<TSchema>>> {
     this.paramsSchema = schema;
-    return this as unknown as RouteBuilder<TBody, TQuery, z.infer<TSchema>, TResponse>;
+    return this as unknown as RouteBuilder<
+      TBody,
+      TQuery,
+      z.infer<TSchema>,
+      TResponse,
+      THeaders,
+      TCookies,
+      TFiles,
+      TContext,
+      TGuardResponses,
+      WithInput<TInput, 'params', z.input<TSchema>>
+    >;
   }
 
-  response<TStatus extends number, TSchema extends z.ZodTypeAny>(
+  headers<TSchema extends z.ZodTypeAny>(
+    schema: TSchema
+  ): RouteBuilder<TBody, TQuery, TParams, TResponse, z.infer<TSchema>, TCookies, TFiles, TContext, TGuardResponses, WithInput<TInput, 'headers', z.input<TSchema>>> {
+    this.headersSchema = schema;
+    return this as unknown as RouteBuilder<
+      TBody,
+      TQuery,
+      TParams,
+      TResponse,
+      z.infer<TSchema>,
+      TCookies,
+      TFiles,
+      TContext,
+      TGuardResponses,
+      WithInput<TInput, 'headers', z.input<TSchema>>
+    >;
+  }
+
+  cookies<TSchema extends z.ZodTypeAny>(
+    schema: TSchema
+  ): RouteBuilder<TBody, TQuery, TParams, TResponse, THeaders, z.infer<TSchema>, TFiles, TContext, TGuardResponses, WithInput<TInput, 'cookies', z.input<TSchema>>> {
+    this.cookiesSchema = schema;
+    return this as unknown as RouteBuilder<
+      TBody,
+      TQuery,
+      TParams,
+      TResponse,
+      THeaders,
+      z.infer<TSchema>,
+      TFiles,
+      TContext,
+      TGuardResponses,
+      WithInput<TInput, 'cookies', z.input<TSchema>>
+    >;
+  }
+
+  files<TSchemas extends FileSchemas>(
+    schemas: TSchemas
+  ): RouteBuilder<TBody, TQuery, TParams, TResponse, THeaders, TCookies, UploadedFilesOf<TSchemas>, TContext, TGuardResponses, TInput> {
+    this.fileSchemas = schemas;
+    return this as unknown as RouteBuilder<
+      TBody,
+      TQuery,
+      TParams,
+      TResponse,
+      THeaders,
+      TCookies,
+      UploadedFilesOf<TSchemas>,
+      TContext,
+      TGuardResponses,
+      TInput
+    >;
+  }
+
+  response<TStatus extends number, TSchema extends ResponseSchema>(
     status: TStatus,
     schema: TSchema
-  ): RouteBuilder<TBody, TQuery, TParams, TResponse & { [K in TStatus]: TSchema }> {
+  ): RouteBuilder<
+    TBody,
+    TQuery,
+    TParams,
+    TResponse & { [K in TStatus]: TSchema },
+    THeaders,
+    TCookies,
+    TFiles,
+    TContext,
+    TGuardResponses,
+    TInput
+  > {
     this.responseSchemas = { ...this.responseSchemas, [status]: schema };
     return this as unknown as RouteBuilder<
       TBody,
       TQuery,
       TParams,
-      TResponse & { [K in TStatus]: TSchema }
+      TResponse & { [K in TStatus]: TSchema },
+      THeaders,
+      TCookies,
+      TFiles,
+      TContext,
+      TGuardResponses,
+      TInput
+    >;
+  }
+
+  extend<TRoute extends RouteDefinition<any, any, any, any, any, any, any, any>>(
+    definition: TRoute
+  ): RouteBuilder<
+    MergeInferred<TBody, InferBody<TRoute>>,
+    MergeInferred<TQuery, InferQuery<TRoute>>,
+    MergeInferred<TParams, InferParams<TRoute>>,
+    AsResponseSchemas<MergeMaps<TResponse, InferResponses<TRoute>>>,
+    MergeInferred<THeaders, InferHeaders<TRoute>>,
+    MergeInferred<TCookies, InferCookies<TRoute>>,
+    MergeFiles<TFiles, InferFiles<TRoute>>,
+    TContext & InferContext<TRoute>,
+    TGuardResponses,
+    ExtendInput<TInput, TRoute>
+  > {
+    const merged = mergeRouteSchemas(this.collectSchemas(), definition.schemas);
+    if (merged.body) this.bodySchema = merged.body;
+    if (merged.query) this.querySchema = merged.query;
+    if (merged.params) this.paramsSchema = merged.params;
+    if (merged.headers) this.headersSchema = merged.headers;
+    if (merged.cookies) this.cookiesSchema = merged.cookies;
+    if (merged.files) this.fileSchemas = merged.files;
+    this.responseSchemas = merged.response ?? {};
+    this.guardList = [...(merged.guards ?? [])];
+    this.contextMiddleware = [...(merged.use ?? [])];
+    if (merged.meta) this.routeMeta = merged.meta;
+    this.routeOptions = { ...this.routeOptions, ...definition.options };
+
+    return this as unknown as RouteBuilder<
+      MergeInferred<TBody, InferBody<TRoute>>,
+      MergeInferred<TQuery, InferQuery<TRoute>>,
+      MergeInferred<TParams, InferParams<TRoute>>,
+      AsResponseSchemas<MergeMaps<TResponse, InferResponses<TRoute>>>,
+      MergeInferred<THeaders, InferHeaders<TRoute>>,
+      MergeInferred<TCookies, InferCookies<TRoute>>,
+      MergeFiles<TFiles, InferFiles<TRoute>>,
+      TContext & InferContext<TRoute>,
+      TGuardResponses,
+      ExtendInput<TInput, TRoute>
+    >;
+  }
+
+  guard<TGuardContext extends object, TResponses extends ResponseSchemas>(
+    guard: Guard<TGuardContext, TResponses>
+  ): RouteBuilder<
+    TBody,
+    TQuery,
+    TParams,
+    TResponse,
+    THeaders,
+    TCookies,
+    TFiles,
+    TContext & TGuardContext,
+    TGuardResponses & TResponses,
+    TInput
+  > {
+    this.guardList.push(guard);
+    return this as unknown as RouteBuilder<
+      TBody,
+      TQuery,
+      TParams,
+      TResponse,
+      THeaders,
+      TCookies,
+      TFiles,
+      TContext & TGuardContext,
+      TGuardResponses & TResponses,
+      TInput
     >;
   }
 
-  use(middleware: RequestHandler): this {
-    this.middlewares.push(middleware);
+  meta(meta: RouteMeta): this {
+    this.routeMeta = mergeMeta(this.routeMeta ?? {}, meta);
+    return this;
+  }
+
+  validateResponse(setting: ResponseValidationSetting): this {
+    this.routeOptions = { ...this.routeOptions, responseValidation: setting };
     return this;
   }
 
-  handler(fn: TypedHandler<TBody, TQuery, TParams, TResponse>): RequestHandler[] {
-    const result: RequestHandler[] = [];
+  onValidationError(strategy: ValidationErrorStrategy): this {
+    this.routeOptions = { ...this.routeOptions, validationErrors: strategy };
+    return this;
+  }
 
-    if (this.bodySchema || this.querySchema || this.paramsSchema) {
-      const schemas: Record<string, z.ZodTypeAny> = {};
-      if (this.bodySchema) schemas.body = this.bodySchema;
-      if (this.querySchema) schemas.query = this.querySchema;
-      if (this.paramsSchema) schemas.params = this.paramsSchema;
+  compile(enabled = true): this {
+    this.routeOptions = { ...this.routeOptions, compile: enabled };
+    return this;
+  }
 
-      result.push(createValidationMiddleware(schemas));
+  use<TProvided extends object>(
+    middleware: ContextMiddleware<TProvided>
+  ): RouteBuilder<
+    TBody,
+    TQuery,
+    TParams,
+    TResponse,
+    THeaders,
+    TCookies,
+    TFiles,
+    TContext & { ctx: TProvided },
+    TGuardResponses,
+    TInput
+  >;
+  use(middleware: RequestHandler): this;
+  use(middleware: RequestHandler | ContextMiddleware<any>): unknown {
+    if (typeof middleware === 'function') {
+      this.middlewares.push(middleware);
+    } else {
+      this.contextMiddleware.push(middleware);
     }
+    return this;
+  }
+
+  handler(
+    fn: TypedHandler<
+      TBody,
+      TQuery,
+      TParams,
+      WithGuardResponses<TResponse, TGuardResponses>,
+      THeaders,
+      TCookies,
+      TFiles,
+      TContext
+    >
+  ): RouteHandlers<
+    TBody,
+    TQuery,
+    TParams,
+    WithGuardResponses<TResponse, TGuardResponses>,
+    THeaders,
+    TCookies,
+    TFiles,
+    TContext,
+    TInput
+  > {
+    const definition = route(this.collectSchemas(), this.routeOptions) as unknown as RouteDefinition<
+      TBody,
+      TQuery,
+      TParams,
+      WithGuardResponses<TResponse, TGuardResponses>,
+      THeaders,
+      TCookies,
+      TFiles,
+      TContext,
+      TInput
+    >;
+
+    const result: RequestHandler[] = [...definition.middleware, ...this.middlewares, wrapHandler(fn as unknown as RequestHandler)];
+
+    return Object.assign(result, { definition });
+  }
 
-    result.push(...this.middlewares);
-    result.push(fn as RequestHandler);
+  private collectSchemas(): Record<string, unknown> {
+    const schemas: Record<string, unknown> = { response: this.responseSchemas };
+    if (this.bodySchema) schemas.body = this.bodySchema;
+    if (this.querySchema) schemas.query = this.querySchema;
+    if (this.paramsSchema) schemas.params = this.paramsSchema;
+    if (this.headersSchema) schemas.headers = this.headersSchema;
+    if (this.cookiesSchema) schemas.cookies = this.cookiesSchema;
+    if (this.fileSchemas) schemas.files = this.fileSchemas;
+    if (this.guardList.length > 0) schemas.guards = this.guardList;
+    if (this.contextMiddleware.length > 0) schemas.use = this.contextMiddleware;
+    if (this.routeMeta) schemas.meta = this.routeMeta;
 
-    return result;
+    return schemas;
   }
 }
 
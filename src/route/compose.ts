@@ -0,0 +1,183 @@
+import type { z } from 'zod';
+import type { RequestInput, RouteDefinition, RouteMeta, RouteOptions, RouteSchemas } from '../types';
+import type {
+  InferBodyInput,
+  InferCookiesInput,
+  InferHeadersInput,
+  InferParamsInput,
+  InferQueryInput,
+} from '../validation/inference';
+import { isZodSchema } from '../validation/body';
+import { isZodObject } from '../zod/introspect';
+import { createRouteMiddleware } from './route';
+
+type AnyRouteDefinition = RouteDefinition<any, any, any, any, any, any, any, any>;
+type AnyRouteSchemas = RouteSchemas<any, any, any, any, any, any, any, any, any>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type PlainObject<T> = [T] extends [object]
+  ? [T] extends [readonly unknown[] | Date | Uint8Array | ((...args: any[]) => unknown)]
+    ? false
+    : true
+  : false;
+
+// Mirrors mergeObjectSchemas: nested objects merge, anything else is replaced by the later fragment
+export type DeepMerge<TBase, TExtra> = PlainObject<TBase> extends true
+  ? PlainObject<TExtra> extends true
+    ? Simplify<
+        Omit<TBase, keyof TExtra> & {
+          [K in keyof TExtra]: K extends keyof TBase ? DeepMerge<TBase[K], TExtra[K]> : TExtra[K];
+        }
+      >
+    : TExtra
+  : TExtra;
+
+export type MergeInferred<TBase, TExtra> = unknown extends TExtra
+  ? TBase
+  : unknown extends TBase
+    ? TExtra
+    : DeepMerge<TBase, TExtra>;
+
+export type MergeMaps<TBase, TExtra> = [keyof TExtra] extends [never]
+  ? TBase
+  : [keyof TBase] extends [never]
+    ? TExtra
+    : Omit<TBase, keyof TExtra> & TExtra;
+
+export type MergeFiles<TBase, TExtra> = unknown extends TExtra
+  ? TBase
+  : unknown extends TBase
+    ? TExtra
+    : MergeMaps<TBase, TExtra>;
+
+// Inputs merge like the parsed types, so a definition without recorded inputs contributes its parsed ones
+export type MergeInputs<TBase extends RouteDefinition, TExtra extends RouteDefinition> = RequestInput<
+  MergeInferred<InferBodyInput<TBase>, InferBodyInput<TExtra>>,
+  MergeInferred<InferQueryInput<TBase>, InferQueryInput<TExtra>>,
+  MergeInferred<InferParamsInput<TBase>, InferParamsInput<TExtra>>,
+  MergeInferred<InferHeadersInput<TBase>, InferHeadersInput<TExtra>>,
+  MergeInferred<InferCookiesInput<TBase>, InferCookiesInput<TExtra>>
+>;
+
+type MergeTwo<TBase, TExtra> = TBase extends RouteDefinition<
+  infer TBody,
+  infer TQuery,
+  infer TParams,
+  infer TResponse,
+  infer THeaders,
+  infer TCookies,
+  infer TFiles,
+  infer TContext
+>
+  ? TExtra extends RouteDefinition<
+      infer TBodyExtra,
+      infer TQueryExtra,
+      infer TParamsExtra,
+      infer TResponseExtra,
+      infer THeadersExtra,
+      infer TCookiesExtra,
+      infer TFilesExtra,
+      infer TContextExtra
+    >
+    ? RouteDefinition<
+        MergeInferred<TBody, TBodyExtra>,
+        MergeInferred<TQuery, TQueryExtra>,
+        MergeInferred<TParams, TParamsExtra>,
+        MergeMaps<TResponse, TResponseExtra>,
+        MergeInferred<THeaders, THeadersExtra>,
+        MergeInferred<TCookies, TCookiesExtra>,
+        MergeFiles<TFiles, TFilesExtra>,
+        TContext & TContextExtra,
+        MergeInputs<TBase, TExtra>
+      >
+    : never
+  : never;
+
+export type MergedRoute<TRoutes extends readonly AnyRouteDefinition[]> = TRoutes extends readonly [
+  infer TFirst,
+  infer TSecond,
+  ...infer TRest extends readonly AnyRouteDefinition[],
+]
+  ? MergedRoute<[MergeTwo<TFirst, TSecond>, ...TRest]>
+  : TRoutes extends readonly [infer TOnly]
+    ? TOnly
+    : RouteDefinition;
+
+/**
+ * Combines route definitions left to right into a new definition. Object
+ * schemas are merged deeply, response and file maps are unioned with later
+ * entries winning, guards and context middleware run in order, and metadata
+ * tags accumulate.
+ */
+export function mergeRoutes<const TRoutes extends readonly [AnyRouteDefinition, ...AnyRouteDefinition[]]>(
+  ...routes: TRoutes
+): MergedRoute<TRoutes> {
+  const schemas = routes.map((routeDef) => routeDef.schemas).reduce(mergeRouteSchemas);
+  const options: RouteOptions = Object.assign({}, ...routes.map((routeDef) => routeDef.options));
+
+  return {
+    schemas,
+    options,
+    middleware: createRouteMiddleware(schemas, options),
+    __brand: 'RouteDefinition' as const,
+  } as unknown as MergedRoute<TRoutes>;
+}
+
+export function mergeRouteSchemas(base: AnyRouteSchemas, extra: AnyRouteSchemas): AnyRouteSchemas {
+  const merged: Record<string, unknown> = { ...base };
+
+  (['body', 'query', 'params', 'headers', 'cookies'] as const).forEach((key) => {
+    const value = mergeSchema(base[key], extra[key]);
+    if (value !== undefined) merged[key] = value;
+  });
+
+  (['response', 'files'] as const).forEach((key) => {
+    if (base[key] || extra[key]) merged[key] = { ...base[key], ...extra[key] };
+  });
+
+  (['guards', 'use'] as const).forEach((key) => {
+    if (base[key] || extra[key]) merged[key] = [...(base[key] ?? []), ...(extra[key] ?? [])];
+  });
+
+  if (base.meta || extra.meta) merged.meta = mergeMeta(base.meta ?? {}, extra.meta ?? {});
+
+  return merged as AnyRouteSchemas;
+}
+
+export function mergeMeta(base: RouteMeta, extra: RouteMeta): RouteMeta {
+  const tags = [...new Set([...(base.tags ?? []), ...(extra.tags ?? [])])];
+  // A version from one side and `deprecated: true` from the other only lose the `Deprecation` header
+  return { ...base, ...extra, ...(tags.length > 0 ? { tags } : {}) } as RouteMeta;
+}
+
+function mergeSchema(base: unknown, extra: unknown): unknown {
+  if (extra === undefined) return base;
+  if (base === undefined) return extra;
+
+  if (isZodSchema(base) && isZodSchema(extra)) return mergeObjectSchemas(base, extra);
+
+  // Bodies keyed by media type merge per media type
+  if (!isZodSchema(base) && !isZodSchema(extra)) {
+    const mediaTypes = { ...(base as Record<string, z.ZodTypeAny>) };
+    Object.entries(extra as Record<string, z.ZodTypeAny>).forEach(([mediaType, schema]) => {
+      const existing = mediaTypes[mediaType];
+      mediaTypes[mediaType] = existing ? mergeObjectSchemas(existing, schema) : schema;
+    });
+    return mediaTypes;
+  }
+
+  return extra;
+}
+
+export function mergeObjectSchemas(base: z.ZodTypeAny, extra: z.ZodTypeAny): z.ZodTypeAny {
+  if (!isZodObject(base) || !isZodObject(extra)) return extra;
+
+  const shared = Object.fromEntries(
+    Object.keys(extra.shape)
+      .filter((key) => key in base.shape)
+      .map((key) => [key, mergeObjectSchemas(base.shape[key] as z.ZodTypeAny, extra.shape[key] as z.ZodTypeAny)])
+  );
+
+  return base.merge(extra).extend(shared);
+}
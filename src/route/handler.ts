@@ -0,0 +1,44 @@
+import type { ErrorRequestHandler, RequestHandler, Response } from 'express';
+import type { HandlerResult } from '../types';
+import { declaredResponseContent } from '../response/content';
+
+export function wrapHandler(fn: RequestHandler): RequestHandler {
+  // Error handlers are recognised by Express through their arity, so they must stay untouched
+  if ((fn as RequestHandler | ErrorRequestHandler).length === 4) return fn;
+
+  return (req, res, next): void => {
+    const result: unknown = fn(req, res, next);
+
+    if (isPromiseLike(result)) {
+      // Errors thrown while sending the result, such as unserializable bodies, reach next() too
+      Promise.resolve(result)
+        .then((value) => sendResult(res, value))
+        .catch(next);
+    } else {
+      sendResult(res, result);
+    }
+  };
+}
+
+function sendResult(res: Response, result: unknown): void {
+  if (!isHandlerResult(result) || res.headersSent) return;
+
+  if (result.headers) res.set(result.headers);
+  res.status(result.status);
+
+  if (result.body === undefined) {
+    res.end();
+  } else if (declaredResponseContent(res, result.status) === 'json') {
+    res.json(result.body);
+  } else {
+    res.send(result.body);
+  }
+}
+
+function isHandlerResult(value: unknown): value is HandlerResult {
+  return typeof value === 'object' && value !== null && typeof (value as HandlerResult).status === 'number';
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof value === 'object' && value !== null && typeof (value as PromiseLike<unknown>).then === 'function';
+}
@@ -1,41 +1,154 @@
 import type { z } from 'zod';
 import type { RequestHandler } from 'express';
-import type { RouteSchemas, RouteDefinition, ResponseSchemas } from '../types';
+import type {
+  FileSchemas,
+  RequestBodyInputOf,
+  RequestBodyOf,
+  RequestBodySchema,
+  RequestInput,
+  RouteSchemas,
+  RouteDefinition,
+  RouteOptions,
+  ResponseSchemas,
+  UploadedFilesOf,
+} from '../types';
 import { createValidationMiddleware } from '../validation/middleware';
+import type { ValidationSchemas } from '../validation/middleware';
+import { createResponseValidationMiddleware } from '../response/validation';
+import { createMultipartMiddleware } from '../multipart/middleware';
+import { createResponseContentMiddleware } from '../response/content';
+import { createResponseSerializerMiddleware } from '../response/serialize';
+import { changesResponseOutput, createResponseOutputMiddleware } from '../response/output';
+import { resolveResponseSchema } from '../response/schema';
+import { createGuardMiddleware } from '../guards/middleware';
+import type { Guard, GuardContext, GuardResponses, WithGuardResponses } from '../guards/guard';
+import { createContextMiddleware } from '../context/middleware';
+import type { ContextMiddleware, ContextStage, MiddlewareContext } from '../context/context';
 
 export function route<
-  TBody extends z.ZodTypeAny = z.ZodUnknown,
+  TBody extends RequestBodySchema = z.ZodUnknown,
   TQuery extends z.ZodTypeAny = z.ZodUnknown,
   TParams extends z.ZodTypeAny = z.ZodUnknown,
-  TResponse extends ResponseSchemas = {}
+  TResponse extends ResponseSchemas = {},
+  THeaders extends z.ZodTypeAny = z.ZodUnknown,
+  TCookies extends z.ZodTypeAny = z.ZodUnknown,
+  TFiles extends FileSchemas = {},
+  const TGuards extends readonly Guard<any, any>[] = [],
+  const TUse extends readonly ContextMiddleware<any>[] = []
 >(
-  schemas: RouteSchemas<TBody, TQuery, TParams, TResponse>
+  schemas: RouteSchemas<TBody, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TGuards, TUse>,
+  options: RouteOptions = {}
 ): RouteDefinition<
-  z.infer<TBody>,
+  RequestBodyOf<TBody>,
   z.infer<TQuery>,
   z.infer<TParams>,
-  TResponse
+  WithGuardResponses<TResponse, GuardResponses<TGuards>>,
+  z.infer<THeaders>,
+  z.infer<TCookies>,
+  UploadedFilesOf<TFiles>,
+  GuardContext<TGuards> & MiddlewareContext<TUse>,
+  RequestInput<RequestBodyInputOf<TBody>, z.input<TQuery>, z.input<TParams>, z.input<THeaders>, z.input<TCookies>>
 > {
-  const middleware: RequestHandler[] = [];
-
-  if (schemas.body || schemas.query || schemas.params) {
-    const validationSchemas: Record<string, z.ZodTypeAny> = {};
-    if (schemas.body) validationSchemas.body = schemas.body;
-    if (schemas.query) validationSchemas.query = schemas.query;
-    if (schemas.params) validationSchemas.params = schemas.params;
-
-    middleware.push(createValidationMiddleware(validationSchemas));
-  }
+  const resolved = withGuardResponses(schemas);
 
   return {
-    schemas,
-    middleware,
+    schemas: resolved,
+    options,
+    middleware: createRouteMiddleware(resolved, options),
     __brand: 'RouteDefinition' as const,
     __types: {
-      body: undefined as unknown as z.infer<TBody>,
+      body: undefined as unknown as RequestBodyOf<TBody>,
       query: undefined as unknown as z.infer<TQuery>,
       params: undefined as unknown as z.infer<TParams>,
-      responses: undefined as unknown as TResponse,
+      responses: undefined as unknown as WithGuardResponses<TResponse, GuardResponses<TGuards>>,
+      headers: undefined as unknown as z.infer<THeaders>,
+      cookies: undefined as unknown as z.infer<TCookies>,
+      files: undefined as unknown as UploadedFilesOf<TFiles>,
+      context: undefined as unknown as GuardContext<TGuards> & MiddlewareContext<TUse>,
+      input: undefined as unknown as RequestInput<
+        RequestBodyInputOf<TBody>,
+        z.input<TQuery>,
+        z.input<TParams>,
+        z.input<THeaders>,
+        z.input<TCookies>
+      >,
     },
   };
 }
+
+export function createRouteMiddleware(
+  schemas: RouteSchemas<any, any, any, any, any, any, any, any, any>,
+  options: RouteOptions
+): RequestHandler[] {
+  const middleware: RequestHandler[] = [];
+
+  if (schemas.guards && schemas.guards.length > 0) {
+    middleware.push(createGuardMiddleware(schemas.guards));
+  }
+
+  const contextMiddleware: readonly ContextMiddleware<any>[] = schemas.use ?? [];
+  const stage = (name: ContextStage): RequestHandler[] =>
+    contextMiddleware
+      .filter((entry) => (entry.stage ?? 'afterValidation') === name)
+      .map((entry) => createContextMiddleware(entry));
+
+  middleware.push(...stage('beforeValidation'));
+
+  if (schemas.files) {
+    middleware.push(createMultipartMiddleware(schemas.files));
+  }
+
+  if (schemas.body || schemas.query || schemas.params || schemas.headers || schemas.cookies || schemas.files) {
+    const validationSchemas: { -readonly [K in keyof ValidationSchemas]: ValidationSchemas[K] } = {};
+    if (schemas.body) validationSchemas.body = schemas.body;
+    if (schemas.query) validationSchemas.query = schemas.query;
+    if (schemas.params) validationSchemas.params = schemas.params;
+    if (schemas.headers) validationSchemas.headers = schemas.headers;
+    if (schemas.cookies) validationSchemas.cookies = schemas.cookies;
+    if (schemas.files) validationSchemas.files = schemas.files;
+
+    middleware.push(
+      createValidationMiddleware(validationSchemas, {
+        ...(options.validationErrors ? { onError: options.validationErrors } : {}),
+        ...(options.compile ? { compile: true } : {}),
+      })
+    );
+  }
+
+  middleware.push(...stage('afterValidation'));
+
+  const responses = (schemas.response ?? {}) as ResponseSchemas;
+  if (Object.values(responses).some((entry) => resolveResponseSchema(entry).content !== 'json')) {
+    middleware.push(createResponseContentMiddleware(responses));
+  }
+
+  // Serializers run inside response validation, so strip mode serializes the parsed body
+  if (options.compile && Object.keys(responses).length > 0) {
+    middleware.push(createResponseSerializerMiddleware(responses));
+  }
+
+  if (options.responseValidation && schemas.response && Object.keys(schemas.response).length > 0) {
+    middleware.push(createResponseValidationMiddleware(schemas.response, options.responseValidation));
+  } else if (
+    Object.values(responses).some((entry) => {
+      const resolved = resolveResponseSchema(entry);
+      return resolved.content === 'json' && resolved.body !== undefined && changesResponseOutput(resolved.body);
+    })
+  ) {
+    // Response validation already sends the parsed body of transforming schemas and writes bigints as strings
+    middleware.push(createResponseOutputMiddleware(responses));
+  }
+
+  return middleware;
+}
+
+function withGuardResponses<TSchemas extends RouteSchemas<any, any, any, any, any, any, any, any, any>>(
+  schemas: TSchemas
+): TSchemas {
+  const guards: readonly Guard<any, any>[] = schemas.guards ?? [];
+  if (!schemas.response || Object.keys(schemas.response).length === 0) return schemas;
+  if (!guards.some((guard) => guard.responses)) return schemas;
+
+  const response = Object.assign({}, ...guards.map((guard) => guard.responses ?? {}), schemas.response);
+  return { ...schemas, response };
+}
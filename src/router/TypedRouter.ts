@@ -1,106 +1,378 @@
-import type { Router } from 'express';
+import type { IRoute, Router } from 'express';
 import { Router as ExpressRouter } from 'express';
 import type { RequestHandler } from 'express';
-import type { RouteDefinition, TypedHandler } from '../types';
-import type { InferBody, InferParams, InferQuery, InferResponses } from '../validation/inference';
-
-export type TypedRouter = Router & {
-  get<TRoute extends RouteDefinition>(
-    path: string,
-    routeDef: TRoute,
-    ...handlers: Array<
-      RequestHandler | TypedHandler<
-        InferBody<TRoute>,
-        InferQuery<TRoute>,
-        InferParams<TRoute>,
-        InferResponses<TRoute>
-      >
-    >
-  ): TypedRouter;
-
-  post<TRoute extends RouteDefinition>(
-    path: string,
-    routeDef: TRoute,
-    ...handlers: Array<
-      RequestHandler | TypedHandler<
-        InferBody<TRoute>,
-        InferQuery<TRoute>,
-        InferParams<TRoute>,
-        InferResponses<TRoute>
-      >
-    >
-  ): TypedRouter;
-
-  put<TRoute extends RouteDefinition>(
-    path: string,
-    routeDef: TRoute,
-    ...handlers: Array<
-      RequestHandler | TypedHandler<
-        InferBody<TRoute>,
-        InferQuery<TRoute>,
-        InferParams<TRoute>,
-        InferResponses<TRoute>
-      >
-    >
-  ): TypedRouter;
-
-  patch<TRoute extends RouteDefinition>(
-    path: string,
-    routeDef: TRoute,
-    ...handlers: Array<
-      RequestHandler | TypedHandler<
-        InferBody<TRoute>,
-        InferQuery<TRoute>,
-        InferParams<TRoute>,
-        InferResponses<TRoute>
-      >
-    >
-  ): TypedRouter;
-
-  delete<TRoute extends RouteDefinition>(
-    path: string,
-    routeDef: TRoute,
-    ...handlers: Array<
-      RequestHandler | TypedHandler<
-        InferBody<TRoute>,
-        InferQuery<TRoute>,
-        InferParams<TRoute>,
-        InferResponses<TRoute>
-      >
-    >
-  ): TypedRouter;
+import type { RouteDefinition, RouteHandlers, RouteOptions, TypedHandler } from '../types';
+import { createRouteMiddleware } from '../route/route';
+import { wrapHandler } from '../route/handler';
+import { ROUTE_METHODS } from './methods';
+import type { RouteMethod } from './methods';
+import type {
+  InferBody,
+  InferContext,
+  InferCookies,
+  InferFiles,
+  InferHeaders,
+  InferQuery,
+  InferResponses,
+} from '../validation/inference';
+import type { CheckPathParams, PathParams, RouteParams } from './pathParams';
+import { joinPaths } from './registry';
+import type { JoinPaths } from './registry';
+import { mergeRoutes } from '../route/compose';
+import type { MergedRoute } from '../route/compose';
+import { createVersionMiddleware } from '../versioning/middleware';
+import type { VersionedRoute } from '../versioning/middleware';
+import { createVersionedPaths, normalizeVersion, withPathVersion } from '../versioning/versioning';
+import type { VersionedPaths, VersioningOptions } from '../versioning/versioning';
+
+export type RouteMap = {
+  readonly [M in RouteMethod]?: { readonly [path: string]: RouteDefinition<any, any, any, any, any, any, any, any> };
+};
+
+// Registering a method and path again, e.g. for another version, adds an alternative definition
+export type WithRoute<
+  TRoutes extends RouteMap,
+  TMethod extends RouteMethod,
+  TPath extends string,
+  TRoute extends RouteDefinition<any, any, any, any, any, any, any, any>
+> = TRoutes extends { readonly [M in TMethod]: { readonly [P in TPath]: infer TExisting } }
+  ? Omit<TRoutes, TMethod> & {
+      readonly [M in TMethod]: Omit<TRoutes[M], TPath> & { readonly [P in TPath]: TExisting | TRoute };
+    }
+  : TRoutes & { readonly [M in TMethod]: { readonly [P in TPath]: TRoute } };
+
+export type InferRouteMap<TRouter> = TRouter extends { readonly __routes?: infer TRoutes }
+  ? Exclude<TRoutes, undefined>
+  : never;
+
+type AnyRouteDefinition = RouteDefinition<any, any, any, any, any, any, any, any>;
+
+// Routes registered on a router with defaults are typed as if merged with them
+export type WithDefaults<TDefaults, TRoute extends AnyRouteDefinition> = [TDefaults] extends [never]
+  ? TRoute
+  : TDefaults extends AnyRouteDefinition
+    ? MergedRoute<[TDefaults, TRoute]>
+    : TRoute;
+
+type WithParentParams<TParams, TParentParams> = [keyof TParentParams] extends [never]
+  ? TParams
+  : TParams & TParentParams;
+
+type HandlerFor<TPath extends string, TRoute extends AnyRouteDefinition, TParentParams> = TypedHandler<
+  InferBody<TRoute>,
+  InferQuery<TRoute>,
+  WithParentParams<RouteParams<TPath, TRoute>, TParentParams>,
+  InferResponses<TRoute>,
+  InferHeaders<TRoute>,
+  InferCookies<TRoute>,
+  InferFiles<TRoute>,
+  InferContext<TRoute>
+>;
+
+export type PrefixRoutes<TPrefix extends string, TRoutes extends RouteMap> = {
+  readonly [M in keyof TRoutes]: {
+    readonly [P in keyof TRoutes[M] & string as JoinPaths<TPrefix, P>]: TRoutes[M][P];
+  };
+};
+
+type PlainHandlers = Array<RequestHandler | (RequestHandler[] & { readonly definition?: never })>;
+
+// Handlers are wrapped in NoInfer so returned `{ status, body }` literals are checked against
+// the route definition instead of widening while TRoute is still being inferred.
+export type TypedRouteMethod<
+  TRoutes extends RouteMap,
+  TMethod extends RouteMethod,
+  TDefaults = never,
+  TParentParams = {}
+> = {
+  <TPath extends string, TRoute extends RouteDefinition>(
+    path: TPath,
+    routeDef: TRoute & CheckPathParams<TPath, TRoute>,
+    ...handlers: Array<NoInfer<HandlerFor<TPath, WithDefaults<TDefaults, TRoute>, TParentParams>>>
+  ): TypedRouter<WithRoute<TRoutes, TMethod, TPath, WithDefaults<TDefaults, TRoute>>, TDefaults, TParentParams>;
+
+  <TPath extends string, TBody, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TInput>(
+    path: TPath,
+    handlers: RouteHandlers<TBody, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TInput> &
+      CheckPathParams<TPath, RouteDefinition<TBody, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TInput>>,
+    ...rest: RequestHandler[]
+  ): TypedRouter<
+    WithRoute<
+      TRoutes,
+      TMethod,
+      TPath,
+      WithDefaults<TDefaults, RouteDefinition<TBody, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TInput>>
+    >,
+    TDefaults,
+    TParentParams
+  >;
+
+  (
+    path: string | RegExp | Array<string | RegExp>,
+    ...handlers: PlainHandlers
+  ): TypedRouter<TRoutes, TDefaults, TParentParams>;
+};
+
+export type TypedRouteChainMethod<TPath extends string, TDefaults = never, TParentParams = {}> = {
+  <TRoute extends RouteDefinition>(
+    routeDef: TRoute & CheckPathParams<TPath, TRoute>,
+    ...handlers: Array<NoInfer<HandlerFor<TPath, WithDefaults<TDefaults, TRoute>, TParentParams>>>
+  ): TypedRouteChain<TPath, TDefaults, TParentParams>;
+
+  <TBody, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TInput>(
+    handlers: RouteHandlers<TBody, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TInput> &
+      CheckPathParams<TPath, RouteDefinition<TBody, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TInput>>,
+    ...rest: RequestHandler[]
+  ): TypedRouteChain<TPath, TDefaults, TParentParams>;
+
+  (...handlers: PlainHandlers): TypedRouteChain<TPath, TDefaults, TParentParams>;
 };
 
-export function createTypedRouter(): TypedRouter {
+export type TypedRouteChain<TPath extends string, TDefaults = never, TParentParams = {}> = {
+  readonly [M in RouteMethod]: TypedRouteChainMethod<TPath, TDefaults, TParentParams>;
+} & Omit<IRoute, RouteMethod>;
+
+export type TypedRouter<TRoutes extends RouteMap = {}, TDefaults = never, TParentParams = {}> = {
+  readonly routes: readonly RegisteredRoute[];
+  readonly mounts: readonly RouterMount[];
+  readonly __routes?: TRoutes;
+
+  get: TypedRouteMethod<TRoutes, 'get', TDefaults, TParentParams>;
+  post: TypedRouteMethod<TRoutes, 'post', TDefaults, TParentParams>;
+  put: TypedRouteMethod<TRoutes, 'put', TDefaults, TParentParams>;
+  patch: TypedRouteMethod<TRoutes, 'patch', TDefaults, TParentParams>;
+  delete: TypedRouteMethod<TRoutes, 'delete', TDefaults, TParentParams>;
+  head: TypedRouteMethod<TRoutes, 'head', TDefaults, TParentParams>;
+  options: TypedRouteMethod<TRoutes, 'options', TDefaults, TParentParams>;
+  all: TypedRouteMethod<TRoutes, 'all', TDefaults, TParentParams>;
+  route<TPath extends string>(path: TPath): TypedRouteChain<TPath, TDefaults, TParentParams>;
+
+  mount<TPrefix extends string, TChildRoutes extends RouteMap>(
+    prefix: TPrefix,
+    child: TypedRouter<TChildRoutes, any, any>
+  ): TypedRouter<TRoutes & PrefixRoutes<TPrefix, TChildRoutes>, TDefaults, TParentParams>;
+  mount<TPrefix extends string, TChildRoutes extends RouteMap>(
+    prefix: TPrefix,
+    build: (
+      child: TypedRouter<{}, TDefaults, WithParentParams<PathParams<TPrefix>, TParentParams>>
+    ) => TypedRouter<TChildRoutes, any, any>
+  ): TypedRouter<TRoutes & PrefixRoutes<TPrefix, TChildRoutes>, TDefaults, TParentParams>;
+} & Omit<Router, RouteMethod | 'route'> & RequestHandler;
+
+export interface TypedRouterOptions<TDefaults extends AnyRouteDefinition = AnyRouteDefinition> extends RouteOptions {
+  readonly defaults?: TDefaults;
+  // Dispatches routes declaring `meta.version` that share a method and path
+  readonly versioning?: VersioningOptions;
+}
+
+export interface RegisteredRoute {
+  readonly method: RouteMethod;
+  readonly path: string;
+  readonly definition: RouteDefinition;
+  readonly middleware: readonly string[];
+  readonly version?: string;
+  // How requests select `version`, from the router the route is registered on
+  readonly versioning?: VersioningOptions;
+}
+
+export interface RouterMount {
+  readonly path: string;
+  readonly router: TypedRouter<any>;
+}
+
+const typedRouters = new WeakSet<object>();
+
+type ChildBuilder = (router: TypedRouter<any, any, any>) => TypedRouter<any, any, any>;
+
+export function createTypedRouter<TDefaults extends AnyRouteDefinition = never>(
+  options: TypedRouterOptions<TDefaults> = {}
+): TypedRouter<{}, TDefaults> {
+  return buildTypedRouter(options);
+}
+
+// Routers built in place register their versioned paths with the parent, which reads the path version for them
+function buildTypedRouter<TDefaults extends AnyRouteDefinition>(
+  options: TypedRouterOptions<TDefaults>,
+  parentPaths?: VersionedPaths
+): TypedRouter<{}, TDefaults> {
   const router = ExpressRouter();
+  const { defaults, versioning, ...routeOptions } = options;
+  const hasOptions = Object.keys(routeOptions).length > 0;
+  const routes: RegisteredRoute[] = [];
+  const mounts: RouterMount[] = [];
+  const versionTables = new Map<string, Map<string, VersionedRoute>>();
+  const versionedPaths = parentPaths ?? createVersionedPaths();
+
+  if (versioning?.strategy === 'path' && !parentPaths) {
+    const target = router as unknown as { handle: Parameters<typeof withPathVersion>[0] };
+    target.handle = withPathVersion(target.handle, versionedPaths);
+  }
+
+  const resolve = (routeDef: RouteDefinition): RouteDefinition =>
+    defaults ? (mergeRoutes(defaults, routeDef) as RouteDefinition) : routeDef;
+
+  const middlewareFor = (routeDef: RouteDefinition): readonly RequestHandler[] =>
+    hasOptions || defaults
+      ? createRouteMiddleware(routeDef.schemas, { ...routeOptions, ...routeDef.options })
+      : routeDef.middleware;
+
+  // Versioned handlers join the dispatcher for their method and path, which is only returned the first time
+  const dispatch = (
+    method: RouteMethod,
+    path: unknown,
+    definition: RouteDefinition,
+    version: string,
+    handlers: RequestHandler[]
+  ): RequestHandler[] | undefined => {
+    const key = `${method} ${String(path)}`;
+    const existing = versionTables.get(key);
+    const versions = existing ?? new Map<string, VersionedRoute>();
+    const name = normalizeVersion(version);
+    let versioned = versions.get(name);
+
+    if (!versioned) {
+      versioned = { router: ExpressRouter({ mergeParams: true }), meta: definition.schemas.meta ?? {} };
+      versions.set(name, versioned);
+    }
+    const register = versioned.router[method] as (path: unknown, ...handlers: RequestHandler[]) => Router;
+    register.call(versioned.router, path, ...handlers);
+
+    if (existing || !versioning) return undefined;
+    versionTables.set(key, versions);
+    versionedPaths.add(method, path);
+    return [createVersionMiddleware(versions, versioning, routeOptions.validationErrors)];
+  };
 
-  const wrap = (
-    method: (path: string, ...handlers: RequestHandler[]) => Router
-  ) => {
-    return (path: string, ...handlers: unknown[]) => {
-      const flattened: RequestHandler[] = [];
-
-      handlers.forEach((handler) => {
-        if (isRouteDefinition(handler)) {
-          flattened.push(...handler.middleware);
-        } else if (typeof handler === 'function') {
-          flattened.push(handler as RequestHandler);
-        }
+  const flatten = (method: RouteMethod, path: unknown, handlers: readonly unknown[]): RequestHandler[] | undefined => {
+    const flattened: RequestHandler[] = [];
+    const definitions: RouteDefinition[] = [];
+    const functions: RequestHandler[] = [];
+
+    handlers.forEach((handler) => {
+      if (isRouteDefinition(handler)) {
+        const definition = resolve(handler);
+        definitions.push(definition);
+        flattened.push(...middlewareFor(definition));
+      } else if (isRouteHandlers(handler)) {
+        const definition = resolve(handler.definition);
+        const rest = handler.slice(handler.definition.middleware.length);
+        definitions.push(definition);
+        functions.push(...rest);
+        flattened.push(...middlewareFor(definition), ...rest);
+      } else if (Array.isArray(handler)) {
+        const fns = handler.filter((fn): fn is RequestHandler => typeof fn === 'function');
+        functions.push(...fns);
+        flattened.push(...fns.map(wrapHandler));
+      } else if (typeof handler === 'function') {
+        functions.push(handler as RequestHandler);
+        flattened.push(wrapHandler(handler as RequestHandler));
+      }
+    });
+
+    const versioned = definitions.find((definition) => definition.schemas.meta?.version);
+    const version = versioned?.schemas.meta?.version;
+
+    if (version && !versioning) {
+      throw new Error(
+        `Route ${method.toUpperCase()} ${String(path)} declares version ${version} but its router has no versioning strategy`
+      );
+    }
+
+    if (typeof path === 'string') {
+      // The last function is the route handler; named functions before it are listed as middleware
+      const middleware = functions
+        .slice(0, -1)
+        .map((fn) => fn.name)
+        .filter((name) => name.length > 0);
+
+      definitions.forEach((definition) => {
+        const version = definition.schemas.meta?.version;
+        routes.push({
+          method,
+          path,
+          definition,
+          middleware,
+          ...(version && versioning ? { version: normalizeVersion(version), versioning } : {}),
+        });
       });
+    }
+
+    return versioned && version ? dispatch(method, path, versioned, version, flattened) : flattened;
+  };
+
+  const createRoute = router.route;
 
-      return method.call(router, path, ...flattened) as unknown as TypedRouter;
+  // Express's own `router.get()` calls `this.route()`, which is replaced below, so routes are created directly
+  const wrap = (method: RouteMethod) => (path: unknown, ...handlers: unknown[]) => {
+    const flattened = flatten(method, path, handlers);
+
+    if (flattened) {
+      const chain = createRoute.call(router, path as string);
+      (chain[method] as (...handlers: RequestHandler[]) => IRoute).call(chain, ...flattened);
+    }
+    return router as unknown as TypedRouter;
+  };
+
+  // Routers built in place inherit this router's options, defaults and versioning and see the prefix's params
+  const buildChild = (prefix: string, build: ChildBuilder): TypedRouter<any, any, any> => {
+    const childPaths: VersionedPaths = {
+      // Regular expressions cannot be prefixed, so versions of those routes are not read from the path
+      add: (method, path) => {
+        if (typeof path === 'string') versionedPaths.add(method, joinPaths(prefix, path));
+      },
+      matches: versionedPaths.matches,
     };
+    return build(Object.assign(buildTypedRouter(options, childPaths), { mergeParams: true }));
   };
 
+  const use = router.use;
+
   const typed = {
-    get: wrap(router.get),
-    post: wrap(router.post),
-    put: wrap(router.put),
-    patch: wrap(router.patch),
-    delete: wrap(router.delete),
+    routes,
+    mounts,
+    ...Object.fromEntries(ROUTE_METHODS.map((method) => [method, wrap(method)])),
+    route: (path: string) => {
+      const chain = createRoute.call(router, path);
+
+      ROUTE_METHODS.forEach((method) => {
+        const register = chain[method] as (...handlers: RequestHandler[]) => IRoute;
+
+        chain[method] = (...handlers: unknown[]) => {
+          const flattened = flatten(method, path, handlers);
+          return flattened ? register.call(chain, ...flattened) : chain;
+        };
+      });
+
+      return chain;
+    },
+    use: (...args: unknown[]) => {
+      const [first] = args;
+      const path = typeof first === 'string' ? first : typeof first === 'function' ? '/' : undefined;
+
+      if (path !== undefined) {
+        args.forEach((arg) => {
+          if (isTypedRouter(arg)) mounts.push({ path, router: arg });
+        });
+      }
+
+      return (use as (...args: unknown[]) => Router).apply(router, args);
+    },
+    mount: (prefix: string, child: unknown) => {
+      // Routers passed in are switched to `mergeParams` in place, so they see the prefix's params
+      const mounted = isTypedRouter(child) ? Object.assign(child, { mergeParams: true }) : buildChild(prefix, child as ChildBuilder);
+      typed.use(prefix, mounted);
+
+      return router;
+    },
   };
 
-  return Object.assign(router, typed) as TypedRouter;
+  typedRouters.add(router);
+
+  return Object.assign(router, typed) as unknown as TypedRouter<{}, TDefaults>;
+}
+
+export function isTypedRouter(value: unknown): value is TypedRouter<any> {
+  return typeof value === 'function' && typedRouters.has(value);
 }
 
 function isRouteDefinition(value: unknown): value is RouteDefinition {
@@ -111,3 +383,7 @@ function isRouteDefinition(value: unknown): value is RouteDefinition {
     (value as RouteDefinition).__brand === 'RouteDefinition'
   );
 }
+
+function isRouteHandlers(value: unknown): value is RouteHandlers {
+  return Array.isArray(value) && isRouteDefinition((value as Partial<RouteHandlers>).definition);
+}
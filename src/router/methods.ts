@@ -0,0 +1,7 @@
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head' | 'options';
+
+export type RouteMethod = HttpMethod | 'all';
+
+export const HTTP_METHODS: readonly HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+export const ROUTE_METHODS: readonly RouteMethod[] = [...HTTP_METHODS, 'all'];
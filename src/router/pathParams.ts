@@ -0,0 +1,63 @@
+import type { RouteDefinition } from '../types';
+import type { InferParams, InferParamsInput } from '../validation/inference';
+
+type PathSegments<TPath extends string> = TPath extends `${infer THead}/${infer TTail}`
+  ? THead | PathSegments<TTail>
+  : TPath;
+
+type RawParam<TSegment extends string> = TSegment extends `${string}:${infer TRaw}` ? TRaw : never;
+
+type ParamName<TRaw extends string> = TRaw extends `${infer TName}(${string}`
+  ? TName
+  : TRaw extends `${infer TName}?`
+    ? TName
+    : TRaw extends `${infer TName}.${string}`
+      ? TName
+      : TRaw extends `${infer TName}-${string}`
+        ? TName
+        : TRaw;
+
+type IsOptionalParam<TRaw extends string> = TRaw extends `${string}?` ? true : false;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type PathParams<TPath extends string> = string extends TPath
+  ? Record<string, string>
+  : Simplify<
+      {
+        [TRaw in RawParam<PathSegments<TPath>> as IsOptionalParam<TRaw> extends true ? never : ParamName<TRaw>]: string;
+      } & {
+        [TRaw in RawParam<PathSegments<TPath>> as IsOptionalParam<TRaw> extends true ? ParamName<TRaw> : never]?: string;
+      }
+    >;
+
+export type RouteParams<TPath extends string, TRoute extends RouteDefinition> = unknown extends InferParams<TRoute>
+  ? PathParams<TPath>
+  : InferParams<TRoute>;
+
+// The params a client puts in the URL, before the params schema parses them
+export type RouteParamsInput<TPath extends string, TRoute extends RouteDefinition> = unknown extends InferParamsInput<TRoute>
+  ? PathParams<TPath>
+  : InferParamsInput<TRoute>;
+
+export interface ParamsMismatch<TExpected, TReceived> {
+  readonly __paramsError: 'params schema keys must match the path parameters';
+  readonly expected: TExpected;
+  readonly received: TReceived;
+}
+
+type SameKeys<TLeft, TRight> = [keyof TLeft] extends [keyof TRight]
+  ? [keyof TRight] extends [keyof TLeft]
+    ? true
+    : false
+  : false;
+
+export type CheckPathParams<TPath extends string, TRoute extends RouteDefinition> = unknown extends InferParams<TRoute>
+  ? unknown
+  : string extends TPath
+    ? unknown
+    : string extends keyof InferParams<TRoute>
+      ? unknown
+      : SameKeys<PathParams<TPath>, InferParams<TRoute>> extends true
+        ? unknown
+        : ParamsMismatch<keyof PathParams<TPath>, keyof InferParams<TRoute>>;
@@ -0,0 +1,28 @@
+import type { RegisteredRoute, TypedRouter } from './TypedRouter';
+
+export function flattenRoutes(router: TypedRouter<any>, prefix = ''): RegisteredRoute[] {
+  const routes = router.routes.map((registered) => ({
+    ...registered,
+    path: joinPaths(prefix, registered.path),
+  }));
+
+  router.mounts.forEach((mount) => {
+    routes.push(...flattenRoutes(mount.router, joinPaths(prefix, mount.path)));
+  });
+
+  return routes;
+}
+
+export function joinPaths(prefix: string, path: string): string {
+  const joined = `${prefix.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  return joined.length > 1 ? joined.replace(/\/+$/, '') : joined;
+}
+
+type TrimLeading<TPath extends string> = TPath extends `/${infer TRest}` ? TrimLeading<TRest> : TPath;
+
+type TrimTrailing<TPath extends string> = TPath extends `${infer TRest}/` ? TrimTrailing<TRest> : TPath;
+
+export type JoinPaths<TPrefix extends string, TPath extends string> =
+  TrimTrailing<`${TrimTrailing<TPrefix>}/${TrimLeading<TPath>}`> extends ''
+    ? '/'
+    : TrimTrailing<`${TrimTrailing<TPrefix>}/${TrimLeading<TPath>}`>;
@@ -0,0 +1,54 @@
+import express from 'express';
+import type { Application } from 'express';
+import type { TypedRouter, InferRouteMap } from '../router/TypedRouter';
+import { createClient } from '../client/client';
+import type { TypedClient } from '../client/client';
+import { createInProcessFetch } from './fetch';
+
+export interface TestClientOptions {
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly basePath?: string;
+}
+
+export interface AppTestClientOptions<TRouter extends TypedRouter<any>> extends TestClientOptions {
+  readonly router: TRouter;
+}
+
+/**
+ * Creates a typed client that calls routes in process. Every response is
+ * checked against the schema declared for its status and a mismatch rejects
+ * with `ResponseValidationError`.
+ *
+ * A router is served behind `express.json()` and `express.urlencoded()`. Pass
+ * an app together with its router to exercise the app's own middleware.
+ */
+export function createTestClient<TRouter extends TypedRouter<any>>(
+  router: TRouter,
+  options?: TestClientOptions
+): TypedClient<InferRouteMap<TRouter>>;
+export function createTestClient<TRouter extends TypedRouter<any>>(
+  app: Application,
+  options: AppTestClientOptions<TRouter>
+): TypedClient<InferRouteMap<TRouter>>;
+export function createTestClient(
+  target: TypedRouter<any> | Application,
+  options: TestClientOptions & { readonly router?: TypedRouter<any> } = {}
+): TypedClient<any> {
+  const router = options.router ?? (target as TypedRouter<any>);
+  const app = isApplication(target) ? target : serveRouter(target);
+
+  return createClient<TypedRouter<any>>({
+    baseUrl: `http://localhost${options.basePath ?? ''}`,
+    fetch: createInProcessFetch(app),
+    validateWith: router,
+    ...(options.headers ? { headers: options.headers } : {}),
+  });
+}
+
+export function serveRouter(router: TypedRouter<any>): Application {
+  return express().use(express.json(), express.urlencoded({ extended: true }), router);
+}
+
+export function isApplication(target: TypedRouter<any> | Application): target is Application {
+  return typeof (target as Application).listen === 'function';
+}
@@ -0,0 +1,72 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Socket } from 'node:net';
+import type { RequestListener } from 'node:http';
+
+// Statuses whose responses must not carry a body in the Fetch API
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Creates a `fetch` implementation that dispatches requests straight into an
+ * Express app or router without binding a network port.
+ */
+export function createInProcessFetch(handler: RequestListener): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const body = Buffer.from(await request.arrayBuffer());
+
+    const socket = new Socket();
+    const req = new IncomingMessage(socket);
+    req.method = request.method;
+    req.url = `${url.pathname}${url.search}`;
+    req.headers = Object.fromEntries(request.headers.entries());
+    req.headers.host ??= url.host;
+    if (body.length > 0) req.headers['content-length'] = String(body.length);
+    if (body.length > 0) req.push(body);
+    req.push(null);
+
+    return new Promise<Response>((resolve, reject) => {
+      const res = new ServerResponse(req);
+      const chunks: Buffer[] = [];
+
+      const collect = (chunk: unknown, encoding?: unknown): void => {
+        if (!res.headersSent) res.writeHead(res.statusCode);
+        if (chunk === undefined || chunk === null || typeof chunk === 'function') return;
+        chunks.push(
+          typeof chunk === 'string'
+            ? Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8')
+            : Buffer.from(chunk as Uint8Array)
+        );
+      };
+
+      res.write = ((chunk: unknown, encoding?: unknown, callback?: () => void) => {
+        collect(chunk, encoding);
+        [encoding, callback].find((arg): arg is () => void => typeof arg === 'function')?.();
+        return true;
+      }) as ServerResponse['write'];
+
+      res.end = ((chunk?: unknown, encoding?: unknown, callback?: () => void) => {
+        collect(chunk, encoding);
+        res.finished = true;
+        [chunk, encoding, callback].find((arg): arg is () => void => typeof arg === 'function')?.();
+
+        const headers = new Headers();
+        Object.entries(res.getHeaders()).forEach(([name, value]) => {
+          if (value === undefined) return;
+          (Array.isArray(value) ? value : [String(value)]).forEach((item) => headers.append(name, item));
+        });
+
+        const hasBody = request.method !== 'HEAD' && !NULL_BODY_STATUSES.has(res.statusCode);
+        resolve(new Response(hasBody ? Buffer.concat(chunks) : null, { status: res.statusCode, headers }));
+        res.emit('finish');
+        return res;
+      }) as ServerResponse['end'];
+
+      try {
+        handler(req, res);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  };
+}
@@ -1,50 +1,394 @@
 import type { Request, Response, NextFunction, RequestHandler } from 'express';
 import type { z } from 'zod';
+import type { ResponseValidationSetting } from './response/validation';
+import type { ValidationErrorStrategy } from './validation/errors';
+import type { Guard } from './guards/guard';
+import type { ContextMiddleware } from './context/context';
 
-export type ResponseSchemas = Readonly<Record<number, z.ZodTypeAny>>;
+export type ResponseContent = 'json' | 'text' | 'binary' | 'empty';
+
+export interface JsonResponseDefinition<
+  TBody extends z.ZodTypeAny = z.ZodTypeAny,
+  THeaders extends z.ZodTypeAny = z.ZodTypeAny
+> {
+  readonly content?: 'json';
+  readonly body: TBody;
+  readonly headers?: THeaders;
+}
+
+export interface TextResponseDefinition<
+  TBody extends z.ZodType<string, any, any> = z.ZodType<string, any, any>,
+  THeaders extends z.ZodTypeAny = z.ZodTypeAny
+> {
+  readonly content: 'text';
+  readonly body?: TBody;
+  readonly contentType?: string;
+  readonly headers?: THeaders;
+}
+
+export interface BinaryResponseDefinition<THeaders extends z.ZodTypeAny = z.ZodTypeAny> {
+  readonly content: 'binary';
+  readonly contentType?: string;
+  readonly headers?: THeaders;
+}
+
+export interface EmptyResponseDefinition<THeaders extends z.ZodTypeAny = z.ZodTypeAny> {
+  readonly content: 'empty';
+  readonly headers?: THeaders;
+}
+
+export type ResponseDefinition =
+  | JsonResponseDefinition
+  | TextResponseDefinition
+  | BinaryResponseDefinition
+  | EmptyResponseDefinition;
+
+export type ResponseSchema = z.ZodTypeAny | ResponseDefinition;
+
+export type ResponseSchemas = Readonly<Record<number, ResponseSchema>>;
+
+export type ResponseContentOf<T> = T extends z.ZodTypeAny
+  ? 'json'
+  : T extends { readonly content: infer TContent extends ResponseContent }
+    ? TContent
+    : 'json';
+
+type ResponseSchemaBody<T, TSide extends 'input' | 'output'> = T extends z.ZodTypeAny
+  ? TSide extends 'input'
+    ? z.input<T>
+    : z.output<T>
+  : T extends { readonly body?: infer TBody extends z.ZodTypeAny }
+    ? TSide extends 'input'
+      ? z.input<TBody>
+      : z.output<TBody>
+    : ResponseContentOf<T> extends 'text'
+      ? string
+      : ResponseContentOf<T> extends 'binary'
+        ? Uint8Array | string
+        : ResponseContentOf<T> extends 'empty'
+          ? undefined
+          : never;
+
+// What handlers send: the schema runs on the way out, so transforms and defaults apply after this
+export type ResponseInputOf<T> = ResponseSchemaBody<T, 'input'>;
+
+// What clients receive once the schema has run
+export type ResponseOutputOf<T> = ResponseSchemaBody<T, 'output'>;
+
+export type ResponseBodyOf<T> = ResponseInputOf<T>;
+
+// The shape a value has after a JSON round trip: dates become strings and bigints are expected as strings
+export type Jsonify<T> = unknown extends T
+  ? T
+  : T extends { toJSON(): infer TJson }
+    ? Jsonify<TJson>
+    : T extends bigint
+      ? string
+      : T extends string | number | boolean | null
+        ? T
+        : T extends undefined | symbol | ((...args: any[]) => unknown)
+          ? never
+          : { [K in keyof T]: Jsonify<T[K]> };
+
+// Headers are typed by their input so values can be set before the schema coerces them
+export type ResponseHeadersOf<T> = T extends { readonly headers?: infer THeaders extends z.ZodTypeAny }
+  ? z.input<THeaders>
+  : {};
+
+// Request bodies are either a single JSON schema or schemas keyed by media type
+export type RequestBodySchemas = Readonly<Record<string, z.ZodTypeAny>>;
+
+export type RequestBodySchema = z.ZodTypeAny | RequestBodySchemas;
+
+export type RequestBodyOf<T> = T extends z.ZodTypeAny
+  ? z.infer<T>
+  : T extends RequestBodySchemas
+    ? { [K in keyof T]: z.infer<T[K]> }[keyof T]
+    : never;
+
+// What clients send, before transforms, defaults and coercion run
+export type RequestBodyInputOf<T> = T extends z.ZodTypeAny
+  ? z.input<T>
+  : T extends RequestBodySchemas
+    ? { [K in keyof T]: z.input<T[K]> }[keyof T]
+    : never;
+
+export interface RequestInput<
+  TBody = unknown,
+  TQuery = unknown,
+  TParams = unknown,
+  THeaders = unknown,
+  TCookies = unknown
+> {
+  readonly body: TBody;
+  readonly query: TQuery;
+  readonly params: TParams;
+  readonly headers: THeaders;
+  readonly cookies: TCookies;
+}
+
+export interface FileFieldSchema {
+  readonly multiple?: boolean;
+  readonly maxCount?: number;
+  readonly maxSize?: number;
+  readonly mimeTypes?: readonly string[];
+  readonly required?: boolean;
+}
+
+export type FileSchemas = Readonly<Record<string, FileFieldSchema>>;
+
+export interface UploadedFile {
+  readonly fieldName: string;
+  readonly originalName: string;
+  readonly mimeType: string;
+  readonly size: number;
+  readonly buffer: Buffer;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type UploadedFilesOf<T> = [keyof T] extends [never]
+  ? unknown
+  : Simplify<
+      {
+        [K in keyof T as T[K] extends { readonly multiple: true } ? K : never]: UploadedFile[];
+      } & {
+        [K in keyof T as T[K] extends { readonly multiple: true }
+          ? never
+          : T[K] extends { readonly required: true }
+            ? K
+            : never]: UploadedFile;
+      } & {
+        [K in keyof T as T[K] extends { readonly multiple: true }
+          ? never
+          : T[K] extends { readonly required: true }
+            ? never
+            : K]?: UploadedFile;
+      }
+    >;
 
 export interface RouteSchemas<
-  TBody extends z.ZodTypeAny = z.ZodUnknown,
+  TBody extends RequestBodySchema = z.ZodUnknown,
   TQuery extends z.ZodTypeAny = z.ZodUnknown,
   TParams extends z.ZodTypeAny = z.ZodUnknown,
-  TResponse extends ResponseSchemas = ResponseSchemas
+  TResponse extends ResponseSchemas = ResponseSchemas,
+  THeaders extends z.ZodTypeAny = z.ZodUnknown,
+  TCookies extends z.ZodTypeAny = z.ZodUnknown,
+  TFiles extends FileSchemas = {},
+  TGuards extends readonly Guard<any, any>[] = [],
+  TUse extends readonly ContextMiddleware<any>[] = []
 > {
+  readonly meta?: RouteMeta;
+  readonly guards?: TGuards;
+  readonly use?: TUse;
   readonly body?: TBody;
   readonly query?: TQuery;
   readonly params?: TParams;
   readonly response?: TResponse;
+  readonly headers?: THeaders;
+  readonly cookies?: TCookies;
+  readonly files?: TFiles;
+}
+
+interface BaseRouteMeta {
+  readonly summary?: string;
+  readonly description?: string;
+  readonly tags?: readonly string[];
+  readonly operationId?: string;
+  readonly sunset?: Date;
+}
+
+interface UnversionedRouteMeta extends BaseRouteMeta {
+  readonly deprecated?: boolean | Date;
+  readonly version?: undefined;
+}
+
+interface VersionedRouteMeta extends BaseRouteMeta {
+  // Sent in the `Deprecation` header, which RFC 9745 only allows as a date
+  readonly deprecated?: Date;
+  // Dispatched by the router's versioning strategy
+  readonly version: string;
+}
+
+export type RouteMeta = UnversionedRouteMeta | VersionedRouteMeta;
+
+export interface RouteOptions {
+  readonly responseValidation?: ResponseValidationSetting;
+  readonly validationErrors?: ValidationErrorStrategy;
+  // Precompiles request validators and JSON response serializers
+  readonly compile?: boolean;
 }
 
 export interface TypedRequest<
   TBody = unknown,
   TQuery = unknown,
-  TParams = unknown
+  TParams = unknown,
+  THeaders = unknown,
+  TCookies = unknown,
+  TFiles = unknown
 > extends Request {
   body: TBody;
   query: TQuery & Request['query'];
   params: TParams & Request['params'];
+  headers: THeaders & Request['headers'];
+  cookies: unknown extends TCookies ? Request['cookies'] : TCookies;
+  files: TFiles;
 }
 
-export type JsonBodyFor<TSchemas> = TSchemas extends ResponseSchemas
-  ? { [S in keyof TSchemas]: TSchemas[S] extends z.ZodTypeAny ? z.infer<TSchemas[S]> : never }[keyof TSchemas]
+export type UnionToIntersection<TUnion> = (TUnion extends unknown ? (value: TUnion) => void : never) extends (
+  value: infer TIntersection
+) => void
+  ? TIntersection
+  : never;
+
+type IsResponseSchemas<TSchemas> = TSchemas extends ResponseSchemas
+  ? keyof TSchemas extends number
+    ? true
+    : false
+  : false;
+
+// Express types json() and send() as function properties, which compare parameters strictly, so a
+// `never` parameter would stop TypedResponse from being assignable to Response
+type NoBodyAllowed = { readonly __bodyNotDeclaredForStatus: never };
+
+type BodyOrDisallowed<TBody> = [TBody] extends [never] ? NoBodyAllowed : TBody;
+
+export type JsonBodyFor<TSchemas> = IsResponseSchemas<TSchemas> extends true
+  ? [keyof TSchemas] extends [never]
+    ? unknown
+    : BodyOrDisallowed<
+        {
+          [S in keyof TSchemas]: ResponseContentOf<TSchemas[S]> extends 'json' ? ResponseInputOf<TSchemas[S]> : never;
+        }[keyof TSchemas]
+      >
+  : TSchemas;
+
+export type SendBodyFor<TSchemas> = IsResponseSchemas<TSchemas> extends true
+  ? [keyof TSchemas] extends [never]
+    ? unknown
+    : BodyOrDisallowed<
+        {
+          [S in keyof TSchemas]: ResponseContentOf<TSchemas[S]> extends 'empty' ? never : ResponseInputOf<TSchemas[S]>;
+        }[keyof TSchemas]
+      >
   : TSchemas;
 
-export type NarrowResponseSchemas<TSchemas, TStatus extends number> = TSchemas extends ResponseSchemas
-  ? Pick<TSchemas, Extract<keyof TSchemas, TStatus>>
+export type NarrowResponseSchemas<TSchemas, TStatus extends number> = IsResponseSchemas<TSchemas> extends true
+  ? [keyof TSchemas] extends [never]
+    ? TSchemas
+    : [Extract<keyof TSchemas, TStatus>] extends [never]
+      ? { readonly [S in TStatus]: never }
+      : Pick<TSchemas, Extract<keyof TSchemas, TStatus>>
   : TSchemas;
 
-export type TypedResponse<TSchemas = unknown> = Omit<Response, 'status' | 'json'> & {
+type DeclaredHeaders<TSchemas> = IsResponseSchemas<TSchemas> extends true
+  ? ResponseHeadersOf<TSchemas[keyof TSchemas]>
+  : never;
+
+// Unchecked responses allow every kind of content
+type DeclaredContent<TSchemas> = IsResponseSchemas<TSchemas> extends true
+  ? [keyof TSchemas] extends [never]
+    ? ResponseContent
+    : ResponseContentOf<TSchemas[keyof TSchemas]>
+  : ResponseContent;
+
+type DeclaredStatus<TSchemas, TContent extends ResponseContent> = IsResponseSchemas<TSchemas> extends true
+  ? [keyof TSchemas] extends [never]
+    ? number
+    : {
+        [S in keyof TSchemas & number]: ResponseContentOf<TSchemas[S]> extends TContent ? S : never;
+      }[keyof TSchemas & number]
+  : number;
+
+type RedirectStatus<TSchemas> = Extract<DeclaredStatus<TSchemas, ResponseContent>, 300 | 301 | 302 | 303 | 307 | 308>;
+
+type AllowedWhen<TSchemas, TContent extends ResponseContent, T> = [
+  Extract<DeclaredContent<TSchemas>, TContent>,
+] extends [never]
+  ? never
+  : T;
+
+type HeaderName<THeaders> = THeaders extends unknown ? keyof THeaders & string : never;
+
+type HeaderValue<THeaders, TName> = THeaders extends unknown
+  ? TName extends keyof THeaders
+    ? THeaders[TName]
+    : never
+  : never;
+
+export type TypedResponse<TSchemas = unknown> = Omit<
+  Response,
+  'status' | 'json' | 'send' | 'sendStatus' | 'end' | 'redirect' | 'sendFile' | 'set' | 'header'
+> & {
   status<TStatus extends number>(code: TStatus): TypedResponse<NarrowResponseSchemas<TSchemas, TStatus>>;
   json(body: JsonBodyFor<TSchemas>): TypedResponse<TSchemas>;
+  send(body: SendBodyFor<TSchemas>): TypedResponse<TSchemas>;
+  sendStatus<TStatus extends DeclaredStatus<TSchemas, 'empty' | 'text'>>(
+    code: TStatus
+  ): TypedResponse<NarrowResponseSchemas<TSchemas, TStatus>>;
+  end(...args: AllowedWhen<TSchemas, 'empty' | 'text' | 'binary', [callback?: () => void]>): TypedResponse<TSchemas>;
+  end(
+    ...args: AllowedWhen<TSchemas, 'empty' | 'text' | 'binary', [chunk: unknown, callback?: () => void]>
+  ): TypedResponse<TSchemas>;
+  end(
+    ...args: AllowedWhen<
+      TSchemas,
+      'empty' | 'text' | 'binary',
+      [chunk: unknown, encoding: BufferEncoding, callback?: () => void]
+    >
+  ): TypedResponse<TSchemas>;
+  redirect(url: AllowedWhen<TSchemas, 'empty' | 'text', 302 extends RedirectStatus<TSchemas> ? string : never>): void;
+  redirect<TStatus extends RedirectStatus<TSchemas>>(status: TStatus, url: string): void;
+  sendFile(path: AllowedWhen<TSchemas, 'text' | 'binary', string>, callback?: (err: Error) => void): void;
+  sendFile(
+    path: AllowedWhen<TSchemas, 'text' | 'binary', string>,
+    options: Parameters<Response['sendFile']>[1],
+    callback?: (err: Error) => void
+  ): void;
+  set<TName extends HeaderName<DeclaredHeaders<TSchemas>>>(
+    field: TName,
+    value: HeaderValue<DeclaredHeaders<TSchemas>, TName>
+  ): TypedResponse<TSchemas>;
+  set(field: string, value?: string | string[]): TypedResponse<TSchemas>;
+  set(fields: Readonly<Record<string, unknown>>): TypedResponse<TSchemas>;
+  header<TName extends HeaderName<DeclaredHeaders<TSchemas>>>(
+    field: TName,
+    value: HeaderValue<DeclaredHeaders<TSchemas>, TName>
+  ): TypedResponse<TSchemas>;
+  header(field: string, value?: string | string[]): TypedResponse<TSchemas>;
+  header(fields: Readonly<Record<string, unknown>>): TypedResponse<TSchemas>;
 };
 
+type HandlerResultHeaders<THeaders> = [keyof THeaders] extends [never]
+  ? { readonly headers?: Readonly<Record<string, string>> }
+  : {} extends THeaders
+    ? { readonly headers?: THeaders & Readonly<Record<string, unknown>> }
+    : { readonly headers: THeaders & Readonly<Record<string, unknown>> };
+
+export type HandlerResult<TSchemas = unknown> = IsResponseSchemas<TSchemas> extends true
+  ? [keyof TSchemas] extends [never]
+    ? { readonly status: number; readonly body?: unknown; readonly headers?: Readonly<Record<string, string>> }
+    : {
+        [S in keyof TSchemas & number]: (ResponseContentOf<TSchemas[S]> extends 'empty'
+          ? { readonly status: S; readonly body?: undefined }
+          : { readonly status: S; readonly body: ResponseInputOf<TSchemas[S]> }) &
+          HandlerResultHeaders<ResponseHeadersOf<TSchemas[S]>>;
+      }[keyof TSchemas & number]
+  : { readonly status: number; readonly body?: TSchemas; readonly headers?: Readonly<Record<string, string>> };
+
 export interface RouteDefinition<
   TBody = unknown,
   TQuery = unknown,
   TParams = unknown,
-  TResponse = unknown
+  TResponse = unknown,
+  THeaders = unknown,
+  TCookies = unknown,
+  TFiles = unknown,
+  TContext = unknown,
+  TInput = unknown
 > {
-  readonly schemas: RouteSchemas<any, any, any, any>;
+  readonly schemas: RouteSchemas<any, any, any, any, any, any, any, any, any>;
+  readonly options: RouteOptions;
   readonly middleware: readonly RequestHandler[];
   readonly __brand: 'RouteDefinition';
   readonly __types?: {
@@ -52,16 +396,40 @@ export interface RouteDefinition<
     readonly query: TQuery;
     readonly params: TParams;
     readonly responses: TResponse;
+    readonly headers: THeaders;
+    readonly cookies: TCookies;
+    readonly files: TFiles;
+    readonly context: TContext;
+    // z.input of each request schema; the other slots hold the parsed output
+    readonly input: TInput;
   };
 }
 
+export type RouteHandlers<
+  TBody = unknown,
+  TQuery = unknown,
+  TParams = unknown,
+  TResponse = unknown,
+  THeaders = unknown,
+  TCookies = unknown,
+  TFiles = unknown,
+  TContext = unknown,
+  TInput = unknown
+> = RequestHandler[] & {
+  readonly definition: RouteDefinition<TBody, TQuery, TParams, TResponse, THeaders, TCookies, TFiles, TContext, TInput>;
+};
+
 export type TypedHandler<
   TBody = unknown,
   TQuery = unknown,
   TParams = unknown,
-  TResponse = unknown
+  TResponse = unknown,
+  THeaders = unknown,
+  TCookies = unknown,
+  TFiles = unknown,
+  TContext = unknown
 > = (
-  req: TypedRequest<TBody, TQuery, TParams>,
+  req: TypedRequest<TBody, TQuery, TParams, THeaders, TCookies, TFiles> & TContext,
   res: TypedResponse<TResponse>,
   next: NextFunction
-) => void | Promise<void>;
+) => void | HandlerResult<TResponse> | Promise<void | HandlerResult<TResponse>>;
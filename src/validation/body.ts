@@ -0,0 +1,22 @@
+import type { Request } from 'express';
+import type { z } from 'zod';
+import type { RequestBodySchema } from '../types';
+
+export function isZodSchema(value: unknown): value is z.ZodTypeAny {
+  return typeof (value as z.ZodTypeAny | undefined)?.safeParse === 'function';
+}
+
+export function bodyMediaTypes(body: RequestBodySchema): readonly string[] {
+  return isZodSchema(body) ? ['application/json'] : Object.keys(body);
+}
+
+// Requests without a body are validated against the first declared media type
+export function selectBodySchema(body: RequestBodySchema, req: Request): z.ZodTypeAny | undefined {
+  if (isZodSchema(body)) return body;
+
+  const mediaTypes = Object.keys(body);
+  if (req.is(mediaTypes) === null) return mediaTypes[0] === undefined ? undefined : body[mediaTypes[0]];
+
+  const mediaType = mediaTypes.find((type) => req.is(type));
+  return mediaType === undefined ? undefined : body[mediaType];
+}
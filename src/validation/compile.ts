@@ -0,0 +1,221 @@
+import { ZodFirstPartyTypeKind } from 'zod';
+import type { z } from 'zod';
+import { schemaDef } from '../zod/introspect';
+import type { SchemaDefOf } from '../zod/introspect';
+
+export type CompiledValidator = (value: unknown) => z.SafeParseReturnType<unknown, unknown>;
+
+type FastParse = (value: unknown) => unknown;
+
+const INVALID: unique symbol = Symbol('invalid');
+
+/**
+ * Precompiles a Zod schema into a validator with the result of `safeParse`.
+ * Plain objects, arrays, unions and primitives with simple checks are checked
+ * by closures built once; anything else is delegated to the subschema's own
+ * `safeParse`. Values the fast path rejects are parsed again by Zod, so error
+ * issues are exactly the ones Zod reports.
+ */
+export function compileValidator(schema: z.ZodTypeAny): CompiledValidator {
+  const parse = compile(schema);
+
+  return (value) => {
+    const data = parse(value);
+    return data === INVALID ? schema.safeParse(value) : { success: true, data };
+  };
+}
+
+function compile(schema: z.ZodTypeAny): FastParse {
+  const def = schemaDef(schema);
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return def.coerce ? delegate(schema) : (compileString(def.checks) ?? delegate(schema));
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return def.coerce ? delegate(schema) : (compileNumber(def.checks) ?? delegate(schema));
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return def.coerce ? delegate(schema) : (value) => (typeof value === 'boolean' ? value : INVALID);
+    case ZodFirstPartyTypeKind.ZodNull:
+      return (value) => (value === null ? value : INVALID);
+    case ZodFirstPartyTypeKind.ZodAny:
+    case ZodFirstPartyTypeKind.ZodUnknown:
+      return (value) => value;
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return (value) => (value === def.value ? value : INVALID);
+    case ZodFirstPartyTypeKind.ZodEnum: {
+      const values = new Set<unknown>(def.values);
+      return (value) => (typeof value === 'string' && values.has(value) ? value : INVALID);
+    }
+    case ZodFirstPartyTypeKind.ZodOptional: {
+      const inner = compile(def.innerType);
+      return (value) => (value === undefined ? value : inner(value));
+    }
+    case ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = compile(def.innerType);
+      return (value) => (value === null ? value : inner(value));
+    }
+    case ZodFirstPartyTypeKind.ZodDefault: {
+      const inner = compile(def.innerType);
+      return (value) => inner(value === undefined ? def.defaultValue() : value);
+    }
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return compile(def.type);
+    case ZodFirstPartyTypeKind.ZodObject:
+      return compileObject(schema as z.AnyZodObject) ?? delegate(schema);
+    case ZodFirstPartyTypeKind.ZodArray:
+      return compileArray(def);
+    case ZodFirstPartyTypeKind.ZodUnion: {
+      const options = def.options.map(compile);
+      return (value) => {
+        for (const option of options) {
+          const data = option(value);
+          if (data !== INVALID) return data;
+        }
+        return INVALID;
+      };
+    }
+    default:
+      return delegate(schema);
+  }
+}
+
+function delegate(schema: z.ZodTypeAny): FastParse {
+  return (value) => {
+    const result = schema.safeParse(value);
+    return result.success ? result.data : INVALID;
+  };
+}
+
+function compileString(checks: readonly z.ZodStringCheck[]): FastParse | undefined {
+  const tests: Array<(value: string) => boolean> = [];
+
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'min':
+        tests.push((value) => value.length >= check.value);
+        break;
+      case 'max':
+        tests.push((value) => value.length <= check.value);
+        break;
+      case 'length':
+        tests.push((value) => value.length === check.value);
+        break;
+      case 'regex': {
+        const { regex } = check;
+        tests.push((value) => {
+          regex.lastIndex = 0;
+          return regex.test(value);
+        });
+        break;
+      }
+      case 'startsWith':
+        tests.push((value) => value.startsWith(check.value));
+        break;
+      case 'endsWith':
+        tests.push((value) => value.endsWith(check.value));
+        break;
+      case 'includes':
+        tests.push((value) => value.includes(check.value, check.position));
+        break;
+      default:
+        // Formats and transforming checks such as trim() are left to Zod
+        return undefined;
+    }
+  }
+
+  return (value) => (typeof value === 'string' && tests.every((test) => test(value)) ? value : INVALID);
+}
+
+function compileNumber(checks: readonly z.ZodNumberCheck[]): FastParse | undefined {
+  const tests: Array<(value: number) => boolean> = [];
+
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'int':
+        tests.push(Number.isInteger);
+        break;
+      case 'finite':
+        tests.push(Number.isFinite);
+        break;
+      case 'min':
+        tests.push(check.inclusive ? (value) => value >= check.value : (value) => value > check.value);
+        break;
+      case 'max':
+        tests.push(check.inclusive ? (value) => value <= check.value : (value) => value < check.value);
+        break;
+      default:
+        return undefined;
+    }
+  }
+
+  return (value) =>
+    typeof value === 'number' && !Number.isNaN(value) && tests.every((test) => test(value)) ? value : INVALID;
+}
+
+function compileObject(schema: z.AnyZodObject): FastParse | undefined {
+  const def = schema._def;
+  if (schemaDef(def.catchall).typeName !== ZodFirstPartyTypeKind.ZodNever) return undefined;
+
+  const shape = schema.shape as z.ZodRawShape;
+  if (Object.prototype.hasOwnProperty.call(shape, '__proto__')) return undefined;
+
+  const properties = Object.entries(shape).map(([key, property]) => [key, compile(property)] as const);
+  const known = new Set(Object.keys(shape));
+
+  return (value) => {
+    if (!isObjectType(value)) return INVALID;
+
+    const data: Record<string, unknown> = {};
+    for (const [key, parse] of properties) {
+      const item = parse(value[key]);
+      if (item === INVALID) return INVALID;
+      // Zod keeps keys that were present in the input even when their value is undefined
+      if (item !== undefined || key in value) data[key] = item;
+    }
+
+    if (def.unknownKeys !== 'strip') {
+      for (const key of Object.keys(value)) {
+        if (known.has(key)) continue;
+        if (def.unknownKeys === 'strict') return INVALID;
+        if (key !== '__proto__') data[key] = value[key];
+      }
+    }
+
+    return data;
+  };
+}
+
+function compileArray(def: SchemaDefOf<ZodFirstPartyTypeKind.ZodArray>): FastParse {
+  const item = compile(def.type);
+  const exact: number | undefined = def.exactLength?.value;
+  const min: number | undefined = def.minLength?.value;
+  const max: number | undefined = def.maxLength?.value;
+
+  return (value) => {
+    if (!Array.isArray(value)) return INVALID;
+    if (exact !== undefined && value.length !== exact) return INVALID;
+    if (min !== undefined && value.length < min) return INVALID;
+    if (max !== undefined && value.length > max) return INVALID;
+
+    const data: unknown[] = new Array(value.length);
+    for (let index = 0; index < value.length; index++) {
+      const parsed = item(value[index]);
+      if (parsed === INVALID) return INVALID;
+      data[index] = parsed;
+    }
+    return data;
+  };
+}
+
+// Mirrors Zod's notion of an object: not null, an array, a date, a map, a set or a promise
+function isObjectType(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof Map) &&
+    !(value instanceof Set) &&
+    typeof (value as { then?: unknown }).then !== 'function'
+  );
+}
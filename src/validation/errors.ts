@@ -0,0 +1,120 @@
+import type { Request } from 'express';
+import type { ValidationError } from './middleware';
+
+export class RequestValidationError extends Error {
+  readonly status = 400;
+
+  constructor(readonly errors: readonly ValidationError[]) {
+    super('Validation failed');
+    this.name = 'RequestValidationError';
+  }
+}
+
+export class UnsupportedMediaTypeError extends Error {
+  readonly status = 415;
+
+  constructor(
+    readonly contentType: string | undefined,
+    readonly supported: readonly string[]
+  ) {
+    super(`Unsupported media type ${contentType ?? '(none)'}`);
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
+// Where a request names its version: the `version` path segment or a header
+export interface VersionSource {
+  readonly location: 'params' | 'headers';
+  readonly name: string;
+}
+
+export class UnsupportedVersionError extends Error {
+  constructor(
+    readonly version: string | undefined,
+    readonly supported: readonly string[],
+    readonly status: 400 | 404 | 406 = 400,
+    readonly source: VersionSource = { location: 'headers', name: 'accept-version' }
+  ) {
+    super(`Unsupported API version ${version ?? '(none)'}`);
+    this.name = 'UnsupportedVersionError';
+  }
+}
+
+export interface ValidationErrorResponse {
+  readonly status: number;
+  readonly body: unknown;
+  readonly headers?: Readonly<Record<string, string>>;
+}
+
+export type ValidationErrorFormatter = (errors: readonly ValidationError[], req: Request) => ValidationErrorResponse;
+
+export type ValidationErrorStrategy = 'default' | 'problem' | 'next' | ValidationErrorFormatter;
+
+export const defaultValidationErrorFormatter: ValidationErrorFormatter = (errors) => ({
+  status: 400,
+  body: { error: 'Validation failed', details: errors },
+});
+
+export const problemDetailsFormatter: ValidationErrorFormatter = (errors, req) => ({
+  status: 400,
+  headers: { 'Content-Type': 'application/problem+json' },
+  body: {
+    type: 'about:blank',
+    title: 'Bad Request',
+    status: 400,
+    detail: 'Request validation failed',
+    instance: req.originalUrl,
+    errors,
+  },
+});
+
+export function unsupportedMediaTypeResponse(
+  strategy: Exclude<ValidationErrorStrategy, 'next'>,
+  error: UnsupportedMediaTypeError,
+  req: Request
+): ValidationErrorResponse {
+  const detail = `Expected one of: ${error.supported.join(', ')}`;
+
+  return strategy === 'problem'
+    ? {
+        status: 415,
+        headers: { 'Content-Type': 'application/problem+json' },
+        body: { type: 'about:blank', title: 'Unsupported Media Type', status: 415, detail, instance: req.originalUrl },
+      }
+    : { status: 415, body: { error: 'Unsupported Media Type', supported: error.supported } };
+}
+
+const VERSION_ERROR_TITLES = { 400: 'Bad Request', 404: 'Not Found', 406: 'Not Acceptable' } as const;
+
+export function unsupportedVersionResponse(
+  strategy: Exclude<ValidationErrorStrategy, 'next'>,
+  error: UnsupportedVersionError,
+  req: Request
+): ValidationErrorResponse {
+  const detail = `Expected one of: ${error.supported.join(', ')}`;
+
+  if (typeof strategy === 'function') {
+    const { location, name } = error.source;
+    return strategy(
+      [{ location, issues: [{ code: 'custom', path: [name], message: `${error.message}. ${detail}` }] }],
+      req
+    );
+  }
+
+  return strategy === 'problem'
+    ? {
+        status: error.status,
+        headers: { 'Content-Type': 'application/problem+json' },
+        body: {
+          type: 'about:blank',
+          title: VERSION_ERROR_TITLES[error.status],
+          status: error.status,
+          detail,
+          instance: req.originalUrl,
+        },
+      }
+    : {
+        status: error.status,
+        body: { error: 'Unsupported API version', ...(error.version ? { version: error.version } : {}), supported: error.supported },
+      };
+}
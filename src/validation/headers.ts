@@ -0,0 +1,17 @@
+import type { z } from 'zod';
+
+// Node lowercases header names, so object schema keys are looked up case-insensitively
+export function headerInput(
+  schema: z.ZodTypeAny,
+  headers: Readonly<Record<string, unknown>>
+): Record<string, unknown> {
+  const shape = (schema as Partial<z.AnyZodObject>).shape as Record<string, unknown> | undefined;
+  if (typeof shape !== 'object') return { ...headers };
+
+  const input: Record<string, unknown> = { ...headers };
+  Object.keys(shape).forEach((key) => {
+    input[key] = headers[key.toLowerCase()];
+  });
+
+  return input;
+}
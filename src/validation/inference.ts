@@ -1,5 +1,4 @@
-import type { z } from 'zod';
-import type { RouteDefinition, ResponseSchemas } from '../types';
+import type { RouteDefinition, ResponseInputOf, ResponseOutputOf, ResponseSchemas } from '../types';
 
 export type InferBody<T extends RouteDefinition> = T extends RouteDefinition<infer TBody, any, any, any>
   ? TBody
@@ -17,7 +16,70 @@ export type InferResponses<T extends RouteDefinition> = T extends RouteDefinitio
   ? TResponse
   : unknown;
 
+export type InferHeaders<T extends RouteDefinition> = T extends RouteDefinition<any, any, any, any, infer THeaders, any>
+  ? THeaders
+  : unknown;
+
+export type InferCookies<T extends RouteDefinition> = T extends RouteDefinition<any, any, any, any, any, infer TCookies>
+  ? TCookies
+  : unknown;
+
+export type InferFiles<T extends RouteDefinition> = T extends RouteDefinition<any, any, any, any, any, any, infer TFiles>
+  ? TFiles
+  : unknown;
+
+export type InferContext<T extends RouteDefinition> = T extends RouteDefinition<
+  any,
+  any,
+  any,
+  any,
+  any,
+  any,
+  any,
+  infer TContext
+>
+  ? TContext
+  : unknown;
+
+export type InferInput<T extends RouteDefinition> = T extends RouteDefinition<
+  any,
+  any,
+  any,
+  any,
+  any,
+  any,
+  any,
+  any,
+  infer TInput
+>
+  ? TInput
+  : unknown;
+
+// Definitions that do not record their inputs fall back to the parsed types
+type InputOr<TInput, TKey extends string, TOutput> = unknown extends TInput
+  ? TOutput
+  : TInput extends { readonly [K in TKey]: infer TValue }
+    ? TValue
+    : TOutput;
+
+export type InferBodyInput<T extends RouteDefinition> = InputOr<InferInput<T>, 'body', InferBody<T>>;
+
+export type InferQueryInput<T extends RouteDefinition> = InputOr<InferInput<T>, 'query', InferQuery<T>>;
+
+export type InferParamsInput<T extends RouteDefinition> = InputOr<InferInput<T>, 'params', InferParams<T>>;
+
+export type InferHeadersInput<T extends RouteDefinition> = InputOr<InferInput<T>, 'headers', InferHeaders<T>>;
+
+export type InferCookiesInput<T extends RouteDefinition> = InputOr<InferInput<T>, 'cookies', InferCookies<T>>;
+
+// The body a handler sends for a status
 export type InferResponseForStatus<
   T extends ResponseSchemas,
   TStatus extends keyof T
-> = T[TStatus] extends z.ZodTypeAny ? z.infer<T[TStatus]> : never;
+> = ResponseInputOf<T[TStatus]>;
+
+// The body a client receives for a status
+export type InferResponseOutputForStatus<
+  T extends ResponseSchemas,
+  TStatus extends keyof T
+> = ResponseOutputOf<T[TStatus]>;
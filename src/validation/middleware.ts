@@ -1,23 +1,75 @@
 import type { RequestHandler } from 'express';
 import type { z } from 'zod';
+import {
+  RequestValidationError,
+  UnsupportedMediaTypeError,
+  defaultValidationErrorFormatter,
+  problemDetailsFormatter,
+  unsupportedMediaTypeResponse,
+} from './errors';
+import type { ValidationErrorFormatter, ValidationErrorStrategy } from './errors';
+import { headerInput } from './headers';
+import { bodyMediaTypes, isZodSchema, selectBodySchema } from './body';
+import { coerceQuery } from './query';
+import { compileValidator } from './compile';
+import type { CompiledValidator } from './compile';
+import type { FileSchemas, RequestBodySchema } from '../types';
+import { validateUploads } from '../multipart/middleware';
 
 export interface ValidationSchemas {
-  readonly body?: z.ZodTypeAny;
+  readonly body?: RequestBodySchema;
   readonly query?: z.ZodTypeAny;
   readonly params?: z.ZodTypeAny;
+  readonly headers?: z.ZodTypeAny;
+  readonly cookies?: z.ZodTypeAny;
+  readonly files?: FileSchemas;
 }
 
 export interface ValidationError {
-  readonly location: 'body' | 'query' | 'params';
+  readonly location: 'body' | 'query' | 'params' | 'headers' | 'cookies' | 'files';
   readonly issues: readonly z.ZodIssue[];
 }
 
-export function createValidationMiddleware(schemas: ValidationSchemas): RequestHandler {
+export interface ValidationMiddlewareOptions {
+  readonly onError?: ValidationErrorStrategy;
+  // Precompiles every schema when the middleware is created (see compileValidator)
+  readonly compile?: boolean;
+}
+
+export function createValidationMiddleware(
+  schemas: ValidationSchemas,
+  options: ValidationMiddlewareOptions = {}
+): RequestHandler {
+  const strategy = options.onError ?? 'default';
+  const format: ValidationErrorFormatter =
+    strategy === 'problem'
+      ? problemDetailsFormatter
+      : typeof strategy === 'function'
+        ? strategy
+        : defaultValidationErrorFormatter;
+  const parse = options.compile ? compileSchemas(schemas) : safeParse;
+
   return (req, res, next): void => {
     const errors: ValidationError[] = [];
 
-    if (schemas.body) {
-      const result = schemas.body.safeParse(req.body);
+    const bodySchema = schemas.body && selectBodySchema(schemas.body, req);
+
+    if (schemas.body && !bodySchema) {
+      const error = new UnsupportedMediaTypeError(req.get('Content-Type'), bodyMediaTypes(schemas.body));
+
+      if (strategy === 'next') {
+        next(error);
+        return;
+      }
+
+      const { status, body, headers } = unsupportedMediaTypeResponse(strategy, error, req);
+      if (headers) res.set(headers);
+      res.status(status).json(body);
+      return;
+    }
+
+    if (bodySchema) {
+      const result = parse(bodySchema, req.body);
       if (!result.success) {
         errors.push({ location: 'body', issues: result.error.issues });
       } else {
@@ -26,31 +78,107 @@ export function createValidationMiddleware(schemas: ValidationSchemas): RequestH
     }
 
     if (schemas.query) {
-      const result = schemas.query.safeParse(req.query);
-      if (!result.success) {
-        errors.push({ location: 'query', issues: result.error.issues });
+      const coerced = coerceQuery(schemas.query, req.query);
+      const result = parse(schemas.query, coerced.data);
+      if (!result.success || coerced.issues.length > 0) {
+        errors.push({ location: 'query', issues: mergeIssues(coerced.issues, result.error?.issues ?? []) });
       } else {
         req.query = result.data;
       }
     }
 
     if (schemas.params) {
-      const result = schemas.params.safeParse(req.params);
+      const result = parse(schemas.params, req.params);
       if (!result.success) {
         errors.push({ location: 'params', issues: result.error.issues });
       } else {
-        req.params = result.data;
+        // Params from a parent router mounted with mergeParams stay alongside the validated ones
+        req.params = { ...req.params, ...result.data };
+      }
+    }
+
+    if (schemas.headers) {
+      const result = parse(schemas.headers, headerInput(schemas.headers, req.headers));
+      if (!result.success) {
+        errors.push({ location: 'headers', issues: result.error.issues });
+      } else {
+        Object.assign(req.headers, result.data);
+      }
+    }
+
+    if (schemas.cookies) {
+      const result = parse(schemas.cookies, req.cookies ?? parseCookies(req.headers.cookie));
+      if (!result.success) {
+        errors.push({ location: 'cookies', issues: result.error.issues });
+      } else {
+        req.cookies = result.data;
+      }
+    }
+
+    if (schemas.files) {
+      const result = validateUploads(schemas.files, req);
+      if (!result.success) {
+        errors.push({ location: 'files', issues: result.issues });
+      } else {
+        Object.assign(req, { files: result.data });
       }
     }
 
     if (errors.length > 0) {
-      res.status(400).json({
-        error: 'Validation failed',
-        details: errors,
-      });
+      if (strategy === 'next') {
+        next(new RequestValidationError(errors));
+        return;
+      }
+
+      const { status, body, headers } = format(errors, req);
+      if (headers) res.set(headers);
+      res.status(status).json(body);
       return;
     }
 
     next();
   };
 }
+
+type SchemaParser = (schema: z.ZodTypeAny, value: unknown) => z.SafeParseReturnType<any, any>;
+
+const safeParse: SchemaParser = (schema, value) => schema.safeParse(value);
+
+function compileSchemas(schemas: ValidationSchemas): SchemaParser {
+  const compiled = new Map<z.ZodTypeAny, CompiledValidator>();
+  const bodies = schemas.body ? (isZodSchema(schemas.body) ? [schemas.body] : Object.values(schemas.body)) : [];
+
+  [...bodies, schemas.query, schemas.params, schemas.headers, schemas.cookies].forEach((schema) => {
+    if (schema) compiled.set(schema, compileValidator(schema));
+  });
+
+  return (schema, value) => (compiled.get(schema) ?? schema.safeParse.bind(schema))(value);
+}
+
+// Zod's own issue for a value that could not be coerced only repeats the coercion issue
+function mergeIssues(coercion: z.ZodIssue[], parsed: readonly z.ZodIssue[]): z.ZodIssue[] {
+  const coercedPaths = new Set(coercion.map((issue) => issue.path.join('.')));
+  return [...coercion, ...parsed.filter((issue) => !coercedPaths.has(issue.path.join('.')))];
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  header?.split(';').forEach((pair) => {
+    const index = pair.indexOf('=');
+    if (index === -1) return;
+
+    const name = pair.slice(0, index).trim();
+    const value = pair.slice(index + 1).trim().replace(/^"(.*)"$/, '$1');
+
+    if (name && !(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  });
+
+  return cookies;
+}
@@ -0,0 +1,213 @@
+import { ZodFirstPartyTypeKind } from 'zod';
+import type { z } from 'zod';
+import { schemaDef } from '../zod/introspect';
+
+type Path = Array<string | number>;
+
+export interface QueryCoercionResult {
+  readonly data: unknown;
+  readonly issues: z.ZodIssue[];
+}
+
+/**
+ * Normalizes a raw query object to the shape `schema` expects: single values
+ * become arrays where arrays are expected, `a[b]` keys become nested objects,
+ * and strings are converted to numbers, booleans, bigints and dates. Values
+ * that cannot be converted are left as they are and reported as issues.
+ */
+export function coerceQuery(schema: z.ZodTypeAny, query: unknown): QueryCoercionResult {
+  const issues: z.ZodIssue[] = [];
+  const data = coerce(schema, expandBrackets(query), [], issues);
+
+  return { data, issues };
+}
+
+function coerce(schema: z.ZodTypeAny, value: unknown, path: Path, issues: z.ZodIssue[]): unknown {
+  if (value === undefined) return value;
+
+  const def = schemaDef(schema);
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return coerce(def.innerType, value, path, issues);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return coerce(def.type, value, path, issues);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return coerce(def.schema, value, path, issues);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return coerce(def.in, value, path, issues);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return coerce(def.getter(), value, path, issues);
+    case ZodFirstPartyTypeKind.ZodObject:
+      return isPlainObject(value) ? coerceEntries((schema as z.AnyZodObject).shape, value, path, issues) : value;
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return isPlainObject(value)
+        ? Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, coerce(def.valueType, item, [...path, key], issues)])
+          )
+        : value;
+    case ZodFirstPartyTypeKind.ZodArray:
+      return toArray(value).map((item, index) => coerce(def.type, item, [...path, index], issues));
+    case ZodFirstPartyTypeKind.ZodSet:
+      return new Set(toArray(value).map((item, index) => coerce(def.valueType, item, [...path, index], issues)));
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return toArray(value).map((item, index) => {
+        const itemSchema = def.items[index] ?? def.rest;
+        return itemSchema ? coerce(itemSchema, item, [...path, index], issues) : item;
+      });
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return coerceScalar(value, 'number', toNumber, path, issues);
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return coerceScalar(value, 'bigint', toBigInt, path, issues);
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return coerceScalar(value, 'boolean', toBoolean, path, issues);
+    case ZodFirstPartyTypeKind.ZodDate:
+      return coerceScalar(value, 'date', toDate, path, issues);
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      if (typeof def.value === 'number') return coerceScalar(value, 'number', toNumber, path, issues);
+      if (typeof def.value === 'boolean') return coerceScalar(value, 'boolean', toBoolean, path, issues);
+      return value;
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      const number = typeof value === 'string' ? toNumber(value) : undefined;
+      return number !== undefined && Object.values(def.values).includes(number) ? number : value;
+    }
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return coerceUnion(def.options, value, path);
+    default:
+      return value;
+  }
+}
+
+function coerceEntries(
+  shape: Record<string, z.ZodTypeAny>,
+  value: Record<string, unknown>,
+  path: Path,
+  issues: z.ZodIssue[]
+): Record<string, unknown> {
+  const result = { ...value };
+
+  Object.entries(shape).forEach(([key, schema]) => {
+    if (key in value) result[key] = coerce(schema, value[key], [...path, key], issues);
+  });
+
+  return result;
+}
+
+// The first option that coerces cleanly and parses wins; otherwise the raw value is left to Zod
+function coerceUnion(options: readonly z.ZodTypeAny[], value: unknown, path: Path): unknown {
+  for (const option of options) {
+    const optionIssues: z.ZodIssue[] = [];
+    const candidate = coerce(option, value, path, optionIssues);
+
+    if (optionIssues.length === 0 && option.safeParse(candidate).success) return candidate;
+  }
+
+  return value;
+}
+
+function coerceScalar(
+  value: unknown,
+  expected: string,
+  convert: (raw: string) => unknown,
+  path: Path,
+  issues: z.ZodIssue[]
+): unknown {
+  if (typeof value !== 'string') return value;
+
+  const converted = convert(value);
+  if (converted === undefined) {
+    issues.push({ code: 'custom', path, message: `Expected ${expected}, received "${value}"` });
+    return value;
+  }
+
+  return converted;
+}
+
+function toNumber(raw: string): number | undefined {
+  const number = raw.trim() === '' ? NaN : Number(raw);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function toBigInt(raw: string): bigint | undefined {
+  try {
+    return raw.trim() === '' ? undefined : BigInt(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+// A bare `?flag` arrives as an empty string and counts as true
+function toBoolean(raw: string): boolean | undefined {
+  const normalized = raw.trim().toLowerCase();
+  if (['', 'true', '1', 'on', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'off', 'no'].includes(normalized)) return false;
+  return undefined;
+}
+
+function toDate(raw: string): Date | undefined {
+  const date = new Date(raw);
+  return raw.trim() === '' || Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+
+  // qs turns indexed keys beyond its array limit into objects such as { '21': 'x' }
+  if (isPlainObject(value) && Object.keys(value).every((key) => /^\d+$/.test(key))) {
+    return Object.keys(value)
+      .sort((left, right) => Number(left) - Number(right))
+      .map((key) => value[key]);
+  }
+
+  return [value];
+}
+
+// Segments that would reach `Object.prototype` or a constructor when used as keys
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Query parsers without nesting support (such as Express's 'simple' parser) leave `a[b]` keys flat
+function expandBrackets(query: unknown): unknown {
+  if (!isPlainObject(query) || !Object.keys(query).some((key) => key.includes('['))) return query;
+
+  const result: Record<string, unknown> = {};
+
+  Object.entries(query).forEach(([key, value]) => {
+    const match = /^([^[\]]+)((?:\[[^[\]]*\])+)$/.exec(key);
+    if (!match?.[1] || !match[2]) {
+      result[key] = value;
+      return;
+    }
+
+    const segments = [match[1], ...Array.from(match[2].matchAll(/\[([^[\]]*)\]/g), ([, segment = '']) => segment)];
+    if (segments[segments.length - 1] === '') segments.pop();
+    if (segments.some((segment) => UNSAFE_SEGMENTS.has(segment))) return;
+
+    assign(result, segments, value);
+  });
+
+  return result;
+}
+
+function assign(target: Record<string, unknown>, segments: string[], value: unknown): void {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) return;
+
+  if (rest.length === 0) {
+    target[segment] = value;
+    return;
+  }
+
+  const existing = Object.prototype.hasOwnProperty.call(target, segment) ? target[segment] : undefined;
+  const nested = isPlainObject(existing) ? existing : {};
+  target[segment] = nested;
+  assign(nested, rest, value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
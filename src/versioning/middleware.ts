@@ -0,0 +1,67 @@
+import type { RequestHandler, Router } from 'express';
+import type { RouteMeta } from '../types';
+import { UnsupportedVersionError, unsupportedVersionResponse } from '../validation/errors';
+import type { ValidationErrorStrategy, VersionSource } from '../validation/errors';
+import { compareVersions, createVersionReader, deprecationHeaders, normalizeVersion } from './versioning';
+import type { VersioningOptions } from './versioning';
+
+export interface VersionedRoute {
+  readonly router: Router;
+  readonly meta: RouteMeta;
+}
+
+const UNSUPPORTED_STATUS = { path: 404, header: 400, 'media-type': 406 } as const;
+
+/**
+ * Dispatches a method and path to the route registered for the requested
+ * version. Versions can be added to the map after the dispatcher is created.
+ * Unknown versions are rejected with an `UnsupportedVersionError`, answered
+ * like other request errors unless the strategy is `next`.
+ */
+export function createVersionMiddleware(
+  versions: ReadonlyMap<string, VersionedRoute>,
+  options: VersioningOptions,
+  strategy: ValidationErrorStrategy = 'default'
+): RequestHandler {
+  const readVersion = createVersionReader(options);
+  const source = versionSource(options);
+
+  return (req, res, next): void => {
+    const requested = readVersion(req);
+    const version = requested ?? (options.defaultVersion ? normalizeVersion(options.defaultVersion) : latest(versions));
+    const route = version === undefined ? undefined : versions.get(version);
+
+    if (!route) {
+      const supported = Array.from(versions.keys()).sort(compareVersions);
+      const error = new UnsupportedVersionError(requested, supported, UNSUPPORTED_STATUS[options.strategy], source);
+
+      if (strategy === 'next') {
+        next(error);
+        return;
+      }
+
+      const { status, body, headers } = unsupportedVersionResponse(strategy, error, req);
+      if (headers) res.set(headers);
+      res.status(status).json(body);
+      return;
+    }
+
+    res.set(deprecationHeaders(route.meta));
+    route.router(req, res, next);
+  };
+}
+
+function versionSource(options: VersioningOptions): VersionSource {
+  switch (options.strategy) {
+    case 'path':
+      return { location: 'params', name: 'version' };
+    case 'header':
+      return { location: 'headers', name: (options.header ?? 'Accept-Version').toLowerCase() };
+    case 'media-type':
+      return { location: 'headers', name: 'accept' };
+  }
+}
+
+function latest(versions: ReadonlyMap<string, VersionedRoute>): string | undefined {
+  return Array.from(versions.keys()).sort(compareVersions).at(-1);
+}
@@ -0,0 +1,137 @@
+import { Router as ExpressRouter } from 'express';
+import type { Request } from 'express';
+import type { RouteMeta } from '../types';
+
+export type VersioningStrategy = 'path' | 'header' | 'media-type';
+
+export interface VersioningOptions {
+  readonly strategy: VersioningStrategy;
+  // Header read by the `header` strategy
+  readonly header?: string;
+  // Vendor in `application/vnd.<vendor>.v2+json`; any vendor matches when omitted
+  readonly vendor?: string;
+  // Version served when a request names none; the latest registered version by default
+  readonly defaultVersion?: string;
+}
+
+export type VersionReader = (req: Request) => string | undefined;
+
+// Looks up a request header by name, case-insensitively
+export type HeaderLookup = (name: string) => string | undefined;
+
+const pathVersions = new WeakMap<Request, string>();
+
+// `v2`, `V2` and `2` name the same version
+export function normalizeVersion(version: string): string {
+  return version.trim().replace(/^v/i, '');
+}
+
+export function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+export function createVersionReader(options: VersioningOptions): VersionReader {
+  if (options.strategy === 'path') return (req) => pathVersions.get(req);
+
+  const readHeaders = createHeaderVersionReader(options);
+  return (req) => readHeaders((name) => req.get(name));
+}
+
+/**
+ * Reads the version requested by headers for the `header` and `media-type`
+ * strategies, so clients can tell which version a request selects. The `path`
+ * strategy reads no headers.
+ */
+export function createHeaderVersionReader(options: VersioningOptions): (lookup: HeaderLookup) => string | undefined {
+  switch (options.strategy) {
+    case 'path':
+      return () => undefined;
+    case 'header': {
+      const header = options.header ?? 'Accept-Version';
+      return (lookup) => {
+        const value = lookup(header);
+        return value ? normalizeVersion(value) : undefined;
+      };
+    }
+    case 'media-type': {
+      const vendor = options.vendor ? escapeRegExp(options.vendor) : '[\\w.-]+?';
+      const pattern = new RegExp(`\\bvnd\\.${vendor}\\.v([\\w.-]+?)(?=[+;,\\s]|$)`, 'i');
+      return (lookup) => pattern.exec(lookup('Accept') ?? '')?.[1];
+    }
+  }
+}
+
+type RouterHandle = (req: Request, res: unknown, out: (err?: unknown) => void) => void;
+
+export interface VersionedPaths {
+  add(method: string, path: unknown): void;
+  matches(method: string, path: string): boolean;
+}
+
+// Uses Express's own path matching so `/users/:id` and regular expressions match as they do when routing
+export function createVersionedPaths(): VersionedPaths {
+  const probe = ExpressRouter();
+  const entries: { method: string; regexp: RegExp }[] = [];
+
+  return {
+    add(method, path) {
+      probe.route(path as string);
+      const layer = probe.stack.at(-1);
+      if (layer) entries.push({ method, regexp: layer.regexp });
+    },
+    matches(method, path) {
+      const requested = method.toLowerCase();
+      return entries.some(
+        (entry) =>
+          (entry.method === 'all' || entry.method === requested || (entry.method === 'get' && requested === 'head')) &&
+          entry.regexp.test(path)
+      );
+    },
+  };
+}
+
+/**
+ * Wraps a router's `handle` so a leading `/v2` segment selects the version and
+ * is removed while the router matches its routes. The segment is only read as
+ * a version when the rest of the path matches a versioned route, so
+ * `/v2/health` never aliases an unversioned `/health` and literal routes like
+ * `/v1/status` keep working. Versions that are not registered are passed on
+ * too, so the dispatcher rejects them with an `UnsupportedVersionError`.
+ */
+export function withPathVersion(handle: RouterHandle, paths: VersionedPaths): RouterHandle {
+  return function (this: unknown, req, res, out) {
+    const url = req.url;
+    const match = /^\/v([^/?#]+)/i.exec(url);
+    const version = match?.[1] && normalizeVersion(match[1]);
+    const rest = match ? url.slice(match[0].length) : '';
+    const stripped = rest.startsWith('/') ? rest : `/${rest}`;
+
+    if (!version || !paths.matches(req.method, stripped.split('?')[0] ?? '')) {
+      handle.call(this, req, res, out);
+      return;
+    }
+
+    pathVersions.set(req, version);
+    req.url = stripped;
+
+    handle.call(this, req, res, (err?: unknown) => {
+      req.url = url;
+      pathVersions.delete(req);
+      out(err);
+    });
+  };
+}
+
+export function deprecationHeaders(meta: RouteMeta): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  // RFC 9745 only allows `@` followed by seconds since the epoch, which is why versioned routes take a date
+  if (meta.deprecated instanceof Date) headers.Deprecation = `@${Math.floor(meta.deprecated.getTime() / 1000)}`;
+  if (meta.sunset) headers.Sunset = meta.sunset.toUTCString();
+
+  return headers;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
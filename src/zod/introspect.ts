@@ -0,0 +1,103 @@
+import { ZodFirstPartyTypeKind as Kind } from 'zod';
+import type { z } from 'zod';
+
+interface BaseDef<TKind extends Kind> {
+  readonly typeName: TKind;
+  readonly description?: string;
+}
+
+interface WrapperDef<TKind extends Kind> extends BaseDef<TKind> {
+  readonly innerType: z.ZodTypeAny;
+}
+
+interface CoercibleDef<TKind extends Kind, TCheck> extends BaseDef<TKind> {
+  readonly checks: readonly TCheck[];
+  readonly coerce: boolean;
+}
+
+interface LengthCheck {
+  readonly value: number;
+}
+
+// Schemas built outside Zod's first-party classes have no type name we know
+interface UnknownDef {
+  readonly typeName?: undefined;
+  readonly description?: string;
+}
+
+/**
+ * The parts of Zod's schema definitions this package reads, as a union
+ * discriminated by `typeName`. Switching on `typeName` narrows to the fields
+ * of that schema type.
+ */
+export type SchemaDef =
+  | CoercibleDef<Kind.ZodString, z.ZodStringCheck>
+  | CoercibleDef<Kind.ZodNumber, z.ZodNumberCheck>
+  | CoercibleDef<Kind.ZodBigInt, z.ZodBigIntCheck>
+  | CoercibleDef<Kind.ZodDate, z.ZodDateCheck>
+  | (BaseDef<Kind.ZodBoolean> & { readonly coerce: boolean })
+  | BaseDef<
+      | Kind.ZodNaN
+      | Kind.ZodSymbol
+      | Kind.ZodUndefined
+      | Kind.ZodNull
+      | Kind.ZodAny
+      | Kind.ZodUnknown
+      | Kind.ZodNever
+      | Kind.ZodVoid
+      | Kind.ZodFunction
+    >
+  | (BaseDef<Kind.ZodArray> & {
+      readonly type: z.ZodTypeAny;
+      readonly minLength: LengthCheck | null;
+      readonly maxLength: LengthCheck | null;
+      readonly exactLength: LengthCheck | null;
+    })
+  | (BaseDef<Kind.ZodObject> & {
+      readonly shape: () => z.ZodRawShape;
+      readonly unknownKeys: z.UnknownKeysParam;
+      readonly catchall: z.ZodTypeAny;
+    })
+  | (BaseDef<Kind.ZodUnion> & { readonly options: readonly z.ZodTypeAny[] })
+  | (BaseDef<Kind.ZodDiscriminatedUnion> & {
+      readonly discriminator: string;
+      readonly options: readonly z.AnyZodObject[];
+      readonly optionsMap: ReadonlyMap<unknown, z.AnyZodObject>;
+    })
+  | (BaseDef<Kind.ZodIntersection> & { readonly left: z.ZodTypeAny; readonly right: z.ZodTypeAny })
+  | (BaseDef<Kind.ZodTuple> & { readonly items: readonly z.ZodTypeAny[]; readonly rest: z.ZodTypeAny | null })
+  | (BaseDef<Kind.ZodRecord | Kind.ZodMap> & { readonly keyType: z.ZodTypeAny; readonly valueType: z.ZodTypeAny })
+  | (BaseDef<Kind.ZodSet> & {
+      readonly valueType: z.ZodTypeAny;
+      readonly minSize: LengthCheck | null;
+      readonly maxSize: LengthCheck | null;
+    })
+  | (BaseDef<Kind.ZodLazy> & { readonly getter: () => z.ZodTypeAny })
+  | (BaseDef<Kind.ZodLiteral> & { readonly value: unknown })
+  | (BaseDef<Kind.ZodEnum> & { readonly values: readonly string[] })
+  | (BaseDef<Kind.ZodNativeEnum> & { readonly values: z.EnumLike })
+  | (BaseDef<Kind.ZodEffects> & { readonly schema: z.ZodTypeAny; readonly effect: z.Effect<unknown> })
+  | WrapperDef<Kind.ZodOptional | Kind.ZodNullable | Kind.ZodCatch | Kind.ZodReadonly>
+  | (WrapperDef<Kind.ZodDefault> & { readonly defaultValue: () => unknown })
+  | (BaseDef<Kind.ZodBranded | Kind.ZodPromise> & { readonly type: z.ZodTypeAny })
+  | (BaseDef<Kind.ZodPipeline> & { readonly in: z.ZodTypeAny; readonly out: z.ZodTypeAny })
+  | UnknownDef;
+
+// The definition of one schema type, such as `SchemaDefOf<ZodFirstPartyTypeKind.ZodObject>`
+export type SchemaDefOf<TKind extends Kind> = Extract<SchemaDef, { readonly typeName: TKind }>;
+
+export function schemaDef(schema: z.ZodTypeAny): SchemaDef {
+  return schema._def as SchemaDef;
+}
+
+export function isZodObject(schema: z.ZodTypeAny): schema is z.AnyZodObject {
+  return schemaDef(schema).typeName === Kind.ZodObject;
+}
+
+// The first check of a kind, typed by that kind: `findCheck(def.checks, 'min')?.value` is a number
+export function findCheck<TCheck extends { readonly kind: string }, TKind extends TCheck['kind']>(
+  checks: readonly TCheck[],
+  kind: TKind
+): Extract<TCheck, { readonly kind: TKind }> | undefined {
+  return checks.find((check): check is Extract<TCheck, { readonly kind: TKind }> => check.kind === kind);
+}
@@ -0,0 +1,55 @@
+import { bench, describe } from 'vitest';
+import { z } from 'zod';
+import { compileSerializer } from '../../src';
+
+const userSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string().email(),
+  age: z.number().int().nullable(),
+  admin: z.boolean(),
+  tags: z.array(z.string()),
+  address: z.object({ street: z.string(), city: z.string() }),
+});
+
+const users = Array.from({ length: 50 }, (_item, index) => ({
+  id: `user-${index}`,
+  name: 'Ada Lovelace',
+  email: `ada.${index}@example.com`,
+  age: index % 3 === 0 ? null : 36,
+  admin: index % 2 === 0,
+  tags: ['math', 'engines'],
+  address: { street: '12 St James Square', city: 'London' },
+}));
+
+// Rows as loaded from a database, with columns the response does not declare
+const rows = users.map((user) => ({
+  ...user,
+  passwordHash: '$2b$10$'.padEnd(60, 'x'),
+  createdAt: '2024-01-01T00:00:00.000Z',
+  settings: { theme: 'dark', notifications: { email: true, sms: false } },
+}));
+
+const listSchema = z.array(userSchema);
+const serialize = compileSerializer(listSchema);
+
+describe('response serialization', () => {
+  bench('JSON.stringify', () => {
+    JSON.stringify(users);
+  });
+  bench('compiled serializer', () => {
+    serialize(users);
+  });
+});
+
+describe('response serialization with undeclared fields', () => {
+  bench('strip mode: safeParse, then JSON.stringify', () => {
+    JSON.stringify(listSchema.parse(rows));
+  });
+  bench('JSON.stringify (leaks undeclared fields)', () => {
+    JSON.stringify(rows);
+  });
+  bench('compiled serializer', () => {
+    serialize(rows);
+  });
+});
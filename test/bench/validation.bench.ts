@@ -0,0 +1,48 @@
+import { bench, describe } from 'vitest';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { compileValidator, createValidationMiddleware } from '../../src';
+
+const schemas = {
+  params: z.object({ teamId: z.string().min(2) }),
+  query: z.object({ page: z.number().int().min(1).default(1), sort: z.enum(['name', 'createdAt']).optional() }),
+  body: z.object({
+    name: z.string().min(1).max(100),
+    role: z.enum(['admin', 'member', 'guest']),
+    tags: z.array(z.string().max(20)).max(10),
+    address: z.object({ street: z.string(), city: z.string(), zip: z.string().length(5) }).optional(),
+  }),
+};
+
+const body = {
+  name: 'Ada Lovelace',
+  role: 'admin',
+  tags: ['math', 'engines', 'poetry'],
+  address: { street: '12 St James Square', city: 'London', zip: '10001' },
+};
+
+const plain = createValidationMiddleware(schemas);
+const compiled = createValidationMiddleware(schemas, { compile: true });
+const response = {} as Response;
+const next = (): void => {};
+
+function run(middleware: typeof plain): void {
+  const req = { body, query: { page: '2', sort: 'name' }, params: { teamId: 't1' }, headers: {} };
+  middleware(req as unknown as Request, response, next);
+}
+
+describe('request validation middleware', () => {
+  bench('safeParse', () => run(plain));
+  bench('compiled', () => run(compiled));
+});
+
+const validate = compileValidator(schemas.body);
+
+describe('body schema', () => {
+  bench('safeParse', () => {
+    schemas.body.safeParse(body);
+  });
+  bench('compiled', () => {
+    validate(body);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import { createClient, createTypedRouter, ResponseValidationError, route } from '../../src';
+
+const userSchema = z.object({ id: z.string(), name: z.string() });
+
+const router = createTypedRouter()
+  .get(
+    '/users/:id',
+    route({
+      params: z.object({ id: z.string() }),
+      query: z.object({ verbose: z.string().optional() }),
+      response: { 200: userSchema, 404: z.object({ error: z.string() }) },
+    }),
+    (req, res) => {
+      if (req.params.id === 'missing') {
+        res.status(404).json({ error: 'Not found' });
+        return;
+      }
+
+      res.status(200).json({ id: req.params.id, name: req.query.verbose ? 'Ada Lovelace' : 'Ada' });
+    }
+  )
+  .post('/users', route({ body: z.object({ name: z.string() }), response: { 201: userSchema } }), (req, res) => {
+    res.status(201).json({ id: 'new', name: req.body.name, extra: true } as z.infer<typeof userSchema>);
+  })
+  .post(
+    '/sessions',
+    route({
+      body: { 'application/x-www-form-urlencoded': z.object({ username: z.string() }) },
+      response: { 201: z.object({ username: z.string() }) },
+    }),
+    (req, res) => {
+      res.status(201).json({ username: req.body.username });
+    }
+  );
+
+describe('createClient', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json(), express.urlencoded({ extended: true }));
+    app.use(router);
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('sends params, query and body and returns status-discriminated results', async () => {
+    const client = createClient<typeof router>({ baseUrl });
+
+    const found = await client.get('/users/:id', { params: { id: '42' }, query: { verbose: 'yes' } });
+    expect(found.status).toBe(200);
+    if (found.status === 200) {
+      expect(found.body).toEqual({ id: '42', name: 'Ada Lovelace' });
+    }
+
+    const missing = await client.get('/users/:id', { params: { id: 'missing' } });
+    expect(missing).toMatchObject({ status: 404, body: { error: 'Not found' } });
+
+    const created = await client.post('/users', { body: { name: 'Grace' } });
+    expect(created).toMatchObject({ status: 201, body: { id: 'new', name: 'Grace', extra: true } });
+  });
+
+  it('validates responses against the router schemas when asked to', async () => {
+    const client = createClient<typeof router>({ baseUrl, validateWith: router });
+
+    const created = await client.post('/users', { body: { name: 'Grace' } });
+    expect(created.body).toEqual({ id: 'new', name: 'Grace' });
+
+    const invalid = createClient<typeof router>({
+      baseUrl,
+      validateWith: router,
+      fetch: async () => new Response(JSON.stringify({ id: 1 }), { status: 200, headers: { 'content-type': 'application/json' } }),
+    });
+
+    await expect(invalid.get('/users/:id', { params: { id: '1' } })).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+
+  it('submits form bodies when asked to', async () => {
+    const client = createClient<typeof router>({ baseUrl });
+
+    const created = await client.post('/sessions', {
+      body: { username: 'ada' },
+      contentType: 'application/x-www-form-urlencoded',
+    });
+    expect(created).toMatchObject({ status: 201, body: { username: 'ada' } });
+
+    const rejected = await client.post('/sessions', { body: { username: 'ada' } });
+    expect(rejected.status).toBe(415);
+  });
+});
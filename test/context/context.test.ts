@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, defineGuard, defineMiddleware, route, typedRoute } from '../../src';
+
+const tenant = defineMiddleware({
+  name: 'tenant',
+  provide: (req) => ({ tenant: req.get('x-tenant') ?? 'public' }),
+});
+
+const logger = defineMiddleware({
+  name: 'logger',
+  provide: async () => {
+    const lines: string[] = [];
+    return { log: (line: string) => lines.push(line), lines };
+  },
+});
+
+describe('context middleware', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it('accumulates provided values into req.ctx through the builder', async () => {
+    const router = createTypedRouter();
+
+    router.get(
+      '/whoami',
+      typedRoute()
+        .use(tenant)
+        .use(logger)
+        .response(200, z.object({ tenant: z.string(), lines: z.array(z.string()) }))
+        .handler((req) => {
+          req.ctx.log(`tenant ${req.ctx.tenant}`);
+          return { status: 200, body: { tenant: req.ctx.tenant, lines: req.ctx.lines } };
+        })
+    );
+
+    app.use(router);
+
+    const response = await request(app).get('/whoami').set('X-Tenant', 'acme');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ tenant: 'acme', lines: ['tenant acme'] });
+  });
+
+  it('runs middleware after validation by default and before it when asked', async () => {
+    const router = createTypedRouter();
+    const seen: string[] = [];
+
+    const validated = defineMiddleware({
+      provide: (req) => {
+        seen.push(`after:${typeof req.body.count}`);
+        return {};
+      },
+    });
+    const early = defineMiddleware({
+      stage: 'beforeValidation',
+      provide: (req) => {
+        seen.push(`before:${typeof req.body.count}`);
+        return { startedAt: 1 };
+      },
+    });
+
+    router.post(
+      '/counters',
+      route({ use: [validated, early], body: z.object({ count: z.coerce.number() }) }),
+      (req, res) => {
+        res.json({ count: req.body.count, startedAt: req.ctx.startedAt });
+      }
+    );
+
+    app.use(router);
+
+    const response = await request(app).post('/counters').send({ count: '3' });
+    expect(response.body).toEqual({ count: 3, startedAt: 1 });
+    expect(seen).toEqual(['before:string', 'after:number']);
+  });
+
+  it('stops the chain when the middleware responds or throws', async () => {
+    const router = createTypedRouter();
+    const maintenance = defineMiddleware({
+      provide: (_req, res) => {
+        res.status(503).json({ error: 'Down for maintenance' });
+        return {};
+      },
+    });
+    const failing = defineMiddleware({
+      provide: async (): Promise<{ db: string }> => {
+        throw new Error('pool exhausted');
+      },
+    });
+
+    router.get('/maintenance', route({ use: [maintenance] }), (_req, res) => {
+      res.json({ reached: true });
+    });
+    router.get('/failing', route({ use: [failing] }), (_req, res) => {
+      res.json({ reached: true });
+    });
+
+    app.use(router);
+    app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).json({ error: err.message });
+    });
+
+    const down = await request(app).get('/maintenance');
+    expect(down.status).toBe(503);
+    expect(down.body).toEqual({ error: 'Down for maintenance' });
+
+    const failed = await request(app).get('/failing');
+    expect(failed.status).toBe(500);
+    expect(failed.body).toEqual({ error: 'pool exhausted' });
+  });
+
+  it('runs after guards so middleware can use guard context', async () => {
+    const router = createTypedRouter();
+    const auth = defineGuard({
+      name: 'auth',
+      check: (req, deny) => (req.get('authorization') ? { userId: 'u1' } : deny(401)),
+    });
+    const audit = defineMiddleware({
+      stage: 'beforeValidation',
+      provide: (req) => ({ actor: (req as express.Request & { userId?: string }).userId ?? 'nobody' }),
+    });
+
+    router.get('/audit', route({ guards: [auth], use: [audit] }), (req, res) => {
+      res.json({ actor: req.ctx.actor, userId: req.userId });
+    });
+
+    app.use(router);
+
+    expect((await request(app).get('/audit')).status).toBe(401);
+
+    const response = await request(app).get('/audit').set('Authorization', 'token');
+    expect(response.body).toEqual({ actor: 'u1', userId: 'u1' });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { createTypedRouter, fuzzRoutes, route } from '../../src';
+
+const userSchema = z.object({ id: z.string(), name: z.string(), nickname: z.string() });
+
+function buildRouter() {
+  return createTypedRouter()
+    .get(
+      '/items',
+      route({
+        query: z.object({ limit: z.coerce.number().int().min(0).max(50).optional() }),
+        response: { 200: z.array(z.object({ id: z.number() })) },
+      }),
+      (req, res) => {
+        if (req.query.limit === 0) throw new Error('Division by zero');
+        res.json(Array.from({ length: req.query.limit ?? 1 }, (_item, id) => ({ id })));
+      }
+    )
+    .post(
+      '/users',
+      route({
+        body: z.object({ name: z.string().min(1).max(20), nickname: z.string().optional() }),
+        response: { 201: userSchema },
+      }),
+      (req, res) => {
+        res.status(201).json({ id: 'u1', name: req.body.name, nickname: req.body.nickname as string });
+      }
+    )
+    .get(
+      '/users/:id/search',
+      route({
+        query: z.object({ q: z.string() }),
+        response: { 200: z.array(userSchema), 400: { content: 'empty' } },
+      }),
+      (req, res) => {
+        if (!req.query.q) {
+          res.status(400).end();
+          return;
+        }
+        res.json([]);
+      }
+    )
+    .post('/avatars', route({ files: { avatar: { maxCount: 1 } } }), (_req, res) => {
+      res.status(204).end();
+    })
+    .get('/health', route({ response: { 200: z.object({ ok: z.literal(true) }) } }), (_req, res) => {
+      res.json({ ok: true });
+    });
+}
+
+describe('fuzzRoutes', () => {
+  it('reports undeclared statuses, invalid bodies and rejected valid inputs', async () => {
+    const report = await fuzzRoutes(buildRouter(), { seed: 7 });
+    const found = report.findings.map(({ method, path, kind, status }) => `${method} ${path} ${kind} ${status}`);
+
+    expect(found).toEqual(
+      expect.arrayContaining([
+        'get /items undeclared-status 500',
+        'post /users invalid-body 201',
+        'get /users/:id/search rejected-valid-input 400',
+      ])
+    );
+    expect(found.filter((finding) => finding.includes('/health'))).toEqual([]);
+    expect(found.some((finding) => finding.endsWith('400') && !finding.includes('rejected-valid-input'))).toBe(false);
+  });
+
+  it('records the input that triggered a finding', async () => {
+    const report = await fuzzRoutes(buildRouter(), { seed: 7 });
+    const crash = report.findings.find((finding) => finding.path === '/items');
+    const invalidBody = report.findings.find((finding) => finding.kind === 'invalid-body');
+
+    expect(crash).toMatchObject({ status: 500, input: { valid: true, query: { limit: 0 } } });
+    expect(crash?.occurrences).toBeGreaterThan(0);
+    expect(invalidBody?.issues[0]?.path).toEqual(['nickname']);
+    expect(invalidBody?.input).toMatchObject({ valid: true, body: { name: expect.any(String) } });
+  });
+
+  it('is deterministic for a seed and skips multipart routes', async () => {
+    const first = await fuzzRoutes(buildRouter(), { seed: 3, runs: 5 });
+    const second = await fuzzRoutes(buildRouter(), { seed: 3, runs: 5 });
+
+    expect(second).toEqual(first);
+    expect(first.requests).toBeGreaterThan(0);
+    expect(first.requests).toBeLessThanOrEqual(4 * 10);
+    expect(first.skipped).toEqual([{ method: 'post', path: '/avatars', reason: 'Multipart routes are not fuzzed' }]);
+  });
+
+  it('does not report dates in responses or required query arrays', async () => {
+    const router = createTypedRouter()
+      .get(
+        '/events',
+        route({
+          query: z.object({ tags: z.array(z.string()) }),
+          response: { 200: z.object({ at: z.date(), tags: z.array(z.string()) }), 400: { content: 'empty' } },
+        }),
+        (req, res) => {
+          res.json({ at: new Date(0), tags: req.query.tags });
+        }
+      );
+
+    const report = await fuzzRoutes(router, { seed: 5 });
+    expect(report.requests).toBeGreaterThan(0);
+    expect(report.findings).toEqual([]);
+  });
+});
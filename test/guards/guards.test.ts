@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, defineGuard, generateOpenApiDocument, route, typedRoute } from '../../src';
+
+const errorSchema = z.object({ error: z.string() });
+
+const users: Record<string, { id: string; scopes: string[] }> = {
+  'token-admin': { id: 'u1', scopes: ['reports:read', 'reports:write'] },
+  'token-reader': { id: 'u2', scopes: ['reports:read'] },
+};
+
+const bearerAuth = defineGuard({
+  name: 'bearerAuth',
+  securityScheme: { type: 'http', scheme: 'bearer' },
+  responses: { 401: errorSchema },
+  check: async (req, deny) => {
+    const user = users[(req.get('authorization') ?? '').replace(/^Bearer /, '')];
+    return user ? { user, scopes: user.scopes } : deny(401, { error: 'Missing or invalid token' });
+  },
+});
+
+const canWrite = defineGuard({
+  name: 'canWrite',
+  responses: { 403: errorSchema },
+  check: (req, deny) =>
+    (req as express.Request & { scopes?: string[] }).scopes?.includes('reports:write')
+      ? { writable: true as const }
+      : deny(403, { error: 'Insufficient scope' }),
+});
+
+describe('route guards', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it('adds guard context to the request and denies with the guard response', async () => {
+    const router = createTypedRouter();
+
+    router.post(
+      '/reports',
+      route({
+        guards: [bearerAuth, canWrite],
+        body: z.object({ title: z.string() }),
+        response: { 201: z.object({ id: z.string(), author: z.string() }) },
+      }),
+      (req, res) => {
+        res.status(201).json({ id: req.body.title, author: req.user.id });
+      }
+    );
+
+    app.use(router);
+
+    const created = await request(app).post('/reports').set('Authorization', 'Bearer token-admin').send({ title: 'q3' });
+    expect(created.status).toBe(201);
+    expect(created.body).toEqual({ id: 'q3', author: 'u1' });
+
+    const anonymous = await request(app).post('/reports').send({ title: 'q3' });
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.body).toEqual({ error: 'Missing or invalid token' });
+
+    const reader = await request(app).post('/reports').set('Authorization', 'Bearer token-reader').send({ title: 'q3' });
+    expect(reader.status).toBe(403);
+    expect(reader.body).toEqual({ error: 'Insufficient scope' });
+  });
+
+  it('runs guards before request validation', async () => {
+    const router = createTypedRouter();
+
+    router.post('/reports', route({ guards: [bearerAuth], body: z.object({ title: z.string() }) }), (_req, res) => {
+      res.status(204).end();
+    });
+
+    app.use(router);
+
+    const response = await request(app).post('/reports').send({});
+    expect(response.status).toBe(401);
+  });
+
+  it('sends a default body for denials without one and forwards thrown errors', async () => {
+    const router = createTypedRouter();
+    const closed = defineGuard({ name: 'closed', check: (_req, deny) => deny(403) });
+    const broken = defineGuard({
+      name: 'broken',
+      check: async (): Promise<{ ok: true }> => {
+        throw new Error('identity provider unavailable');
+      },
+    });
+
+    router.get('/closed', route({ guards: [closed] }), (_req, res) => {
+      res.json({});
+    });
+    router.get('/broken', route({ guards: [broken] }), (_req, res) => {
+      res.json({});
+    });
+
+    app.use(router);
+    app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(503).json({ error: err.message });
+    });
+
+    const denied = await request(app).get('/closed');
+    expect(denied.status).toBe(403);
+    expect(denied.body).toEqual({ error: 'Forbidden' });
+
+    const failed = await request(app).get('/broken');
+    expect(failed.status).toBe(503);
+    expect(failed.body).toEqual({ error: 'identity provider unavailable' });
+  });
+
+  it('forwards errors thrown while sending a denial', async () => {
+    const router = createTypedRouter();
+    const unserializable = {
+      toJSON(): never {
+        throw new Error('cannot serialize');
+      },
+    };
+    const closed = defineGuard({ name: 'closed', check: (_req, deny) => deny(403, unserializable) });
+
+    router.get('/closed', route({ guards: [closed] }), (_req, res) => {
+      res.json({});
+    });
+
+    app.use(router);
+    app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(503).json({ error: err.message });
+    });
+
+    const response = await request(app).get('/closed');
+    expect(response.status).toBe(503);
+    expect(response.body).toEqual({ error: 'cannot serialize' });
+  });
+
+  it('supports guards on the route builder', async () => {
+    const router = createTypedRouter();
+
+    router.get(
+      '/me',
+      typedRoute()
+        .guard(bearerAuth)
+        .response(200, z.object({ id: z.string(), scopes: z.array(z.string()) }))
+        .handler((req) => ({ status: 200, body: { id: req.user.id, scopes: req.scopes } }))
+    );
+
+    app.use(router);
+
+    const response = await request(app).get('/me').set('Authorization', 'Bearer token-reader');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 'u2', scopes: ['reports:read'] });
+  });
+
+  it('documents guard responses and security requirements', () => {
+    const router = createTypedRouter();
+
+    router.delete(
+      '/reports/:id',
+      route({ guards: [bearerAuth, canWrite], response: { 204: { content: 'empty' } } }),
+      (_req, res) => {
+        res.status(204).end();
+      }
+    );
+
+    const document = generateOpenApiDocument(router, { info: { title: 'Reports', version: '1.0.0' } });
+    const operation = document.paths['/reports/{id}']?.delete;
+
+    expect(Object.keys(operation?.responses ?? {})).toEqual(['204', '401', '403']);
+    expect(operation?.security).toEqual([{ bearerAuth: [] }]);
+    expect(operation?.['x-guards']).toEqual(['bearerAuth', 'canWrite']);
+    expect(document.components?.securitySchemes).toEqual({ bearerAuth: { type: 'http', scheme: 'bearer' } });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { createRouteManifest, createTypedRouter, diffRouteManifests, formatManifestDiff, route } from '../../src';
+import { runCli } from '../../src/cli/cli';
+
+const noop = (): void => {};
+
+function v1() {
+  const router = createTypedRouter();
+
+  router.post(
+    '/users',
+    route({
+      body: z.object({ name: z.string(), role: z.enum(['admin', 'member', 'guest']) }),
+      response: {
+        201: z.object({ id: z.string(), name: z.string(), email: z.string().optional() }),
+        409: z.object({ error: z.string() }),
+      },
+    }),
+    noop
+  );
+  router.get('/users/:id', route({ response: { 200: z.object({ id: z.string() }) } }), noop);
+  router.delete('/users/:id', route({}), noop);
+
+  return createRouteManifest(router);
+}
+
+function v2() {
+  const router = createTypedRouter();
+
+  router.post(
+    '/users',
+    route({
+      body: z.object({ name: z.string().max(50), role: z.enum(['admin', 'member']), team: z.string() }),
+      response: {
+        201: z.object({ id: z.string(), name: z.string(), createdAt: z.string() }),
+      },
+    }),
+    noop
+  );
+  router.get(
+    '/users/:userId',
+    route({
+      query: z.object({ fields: z.string().optional() }),
+      response: { 200: z.object({ id: z.string(), name: z.string().optional() }), 404: z.object({}) },
+    }),
+    noop
+  );
+  router.get('/teams', route({}), noop);
+
+  return createRouteManifest(router);
+}
+
+const summarize = (changes: ReturnType<typeof diffRouteManifests>['changes']) =>
+  changes.map(({ severity, method, location, status, field, message }) =>
+    [severity, method, location, status, field, message].filter(Boolean).join(' | ')
+  );
+
+describe('route manifest diff', () => {
+  it('classifies request, response and route changes', () => {
+    const diff = diffRouteManifests(v1(), v2());
+
+    expect(diff.breaking).toBe(true);
+    expect(summarize(diff.changes)).toEqual([
+      'breaking | post | body | name | maxLength 50 was added',
+      'breaking | post | body | role | Enum values removed: \'guest\'',
+      'breaking | post | body | team | Required property was added',
+      'breaking | post | response | 201 | email | Property was removed',
+      'non-breaking | post | response | 201 | createdAt | Required property was added',
+      'breaking | post | response | 409 | Status code was removed',
+      'breaking | delete | route | Route was removed',
+      'non-breaking | get | query | fields | Optional property was added',
+      'non-breaking | get | response | 200 | name | Optional property was added',
+      'non-breaking | get | response | 404 | Status code was added',
+      'non-breaking | get | route | Route was added',
+    ]);
+  });
+
+  it('treats widened requests and narrowed responses as compatible', () => {
+    const before = createTypedRouter().put(
+      '/settings',
+      route({
+        body: z.object({ theme: z.enum(['light', 'dark']), fontSize: z.number().int().min(10) }),
+        response: { 200: z.object({ theme: z.string(), beta: z.boolean().optional() }) },
+      }),
+      noop
+    );
+    const after = createTypedRouter().put(
+      '/settings',
+      route({
+        body: z.object({ theme: z.enum(['light', 'dark', 'system']), fontSize: z.number().min(8).optional() }),
+        response: { 200: z.object({ theme: z.enum(['light', 'dark']), beta: z.boolean() }) },
+      }),
+      noop
+    );
+
+    const diff = diffRouteManifests(createRouteManifest(before), createRouteManifest(after));
+
+    expect(diff.breaking).toBe(false);
+    expect(diff.changes.every((change) => change.severity === 'non-breaking')).toBe(true);
+    expect(diff.changes).not.toHaveLength(0);
+  });
+
+  it('formats breaking changes first', () => {
+    const lines = formatManifestDiff(diffRouteManifests(v1(), v2())).split('\n');
+
+    expect(lines[0]).toBe('BREAKING  POST /users  body application/json name: maxLength 50 was added');
+    expect(lines.at(-1)).toBe('non-breaking  GET /teams: Route was added');
+    expect(formatManifestDiff(diffRouteManifests(v1(), v1()))).toBe('No route changes');
+  });
+});
+
+describe('diff command', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) rmSync(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  function run(args: string[]): { code: number; stdout: string; stderr: string } {
+    let stdout = '';
+    let stderr = '';
+    const code = runCli(args, {
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) },
+    });
+    return { code, stdout, stderr };
+  }
+
+  function write(name: string, contents: unknown): string {
+    directory ??= mkdtempSync(join(tmpdir(), 'route-manifest-'));
+    const file = join(directory, name);
+    writeFileSync(file, JSON.stringify(contents));
+    return file;
+  }
+
+  it('exits non-zero when a change is breaking', () => {
+    const previous = write('previous.json', v1());
+    const next = write('next.json', v2());
+
+    const breaking = run(['diff', previous, next]);
+    expect(breaking.code).toBe(1);
+    expect(breaking.stdout).toContain('BREAKING  DELETE /users/:id: Route was removed');
+
+    const unchanged = run(['diff', previous, previous, '--json']);
+    expect(unchanged.code).toBe(0);
+    expect(JSON.parse(unchanged.stdout)).toEqual({ breaking: false, changes: [] });
+  });
+
+  it('reports usage and input errors with exit code 2', () => {
+    expect(run(['diff', 'only-one.json'])).toMatchObject({ code: 2, stderr: expect.stringContaining('Usage') });
+    expect(run(['diff', write('a.json', { routes: [] }), write('b.json', v1())])).toMatchObject({
+      code: 2,
+      stderr: expect.stringContaining('is not a route manifest'),
+    });
+  });
+});
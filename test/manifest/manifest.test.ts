@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import type { RequestHandler } from 'express';
+import { z } from 'zod';
+import {
+  createRouteManifest,
+  createTypedRouter,
+  defineGuard,
+  defineMiddleware,
+  generateOpenApiDocument,
+  mergeRoutes,
+  route,
+  typedRoute,
+} from '../../src';
+
+const auth = defineGuard({ name: 'auth', check: () => ({ userId: 'u1' }) });
+const tenant = defineMiddleware({ name: 'tenant', provide: () => ({ tenant: 'acme' }) });
+function audit(...[, , next]: Parameters<RequestHandler>): void {
+  next();
+}
+
+function buildRouter() {
+  const router = createTypedRouter({ defaults: route({ meta: { tags: ['users'] } }) });
+
+  router.post(
+    '/users',
+    route({
+      meta: { summary: 'Create a user', operationId: 'createUser' },
+      guards: [auth],
+      use: [tenant],
+      body: z.object({ name: z.string() }),
+      response: { 201: z.object({ id: z.string() }), 204: { content: 'empty' } },
+    }),
+    audit,
+    (_req, res) => {
+      res.status(204).end();
+    }
+  );
+
+  router.mount('/users/:id', (user) =>
+    user.get(
+      '/avatar',
+      typedRoute()
+        .meta({ summary: 'Download an avatar', deprecated: true, tags: ['media'] })
+        .use(audit)
+        .response(200, { content: 'binary', contentType: 'image/png' })
+        .handler((_req, res) => {
+          res.status(200).send(Buffer.from('png'));
+        })
+    )
+  );
+
+  return router;
+}
+
+describe('route manifest', () => {
+  it('lists every route with its full path, schemas and metadata', () => {
+    const manifest = createRouteManifest(buildRouter());
+
+    expect(manifest.version).toBe(1);
+    expect(manifest.routes.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      'post /users',
+      'get /users/:id/avatar',
+    ]);
+
+    const [create, avatar] = manifest.routes;
+    expect(create).toMatchObject({
+      operationId: 'createUser',
+      summary: 'Create a user',
+      tags: ['users'],
+      request: { body: { 'application/json': { type: 'object', required: ['name'] } } },
+      responses: {
+        201: { content: 'json', contentType: 'application/json', body: { type: 'object' } },
+        204: { content: 'empty' },
+      },
+      guards: ['auth'],
+      middleware: ['tenant', 'audit'],
+    });
+    expect(avatar).toMatchObject({
+      summary: 'Download an avatar',
+      deprecated: true,
+      tags: ['users', 'media'],
+      responses: { 200: { content: 'binary', contentType: 'image/png' } },
+      middleware: ['audit'],
+    });
+  });
+
+  it('is stable, plain JSON', () => {
+    const first = JSON.stringify(createRouteManifest(buildRouter()));
+    const second = JSON.stringify(createRouteManifest(buildRouter()));
+
+    expect(first).toBe(second);
+    expect(JSON.parse(first)).toEqual(createRouteManifest(buildRouter()));
+  });
+
+  it('adds metadata to OpenAPI operations and merges tags across fragments', () => {
+    const router = createTypedRouter();
+    const tagged = route({ meta: { tags: ['billing'] } });
+
+    router.get('/invoices', mergeRoutes(tagged, route({ meta: { operationId: 'listInvoices', tags: ['reports'] } })));
+
+    const operation = generateOpenApiDocument(router, { info: { title: 'Billing', version: '1.0.0' } }).paths[
+      '/invoices'
+    ]?.get;
+    expect(operation).toMatchObject({ operationId: 'listInvoices', tags: ['billing', 'reports'] });
+  });
+});
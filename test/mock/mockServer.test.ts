@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { z } from 'zod';
+import { createMockApp, createTestClient, createTypedRouter, generateFromSchema, route, typedRoute } from '../../src';
+
+const userSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email(),
+  age: z.number().int().min(18).max(99),
+  role: z.enum(['admin', 'member']),
+  tags: z.array(z.string().min(2)).max(3),
+  createdAt: z.string().datetime(),
+  manager: z.object({ id: z.string().uuid() }).nullable(),
+});
+
+const listUsers = route({
+  query: z.object({ limit: z.number().int().max(50).optional() }),
+  response: { 200: z.array(userSchema).min(2).max(5) },
+});
+
+const getUser = route({
+  params: z.object({ id: z.string() }),
+  response: {
+    200: { body: userSchema, headers: z.object({ ETag: z.string() }) },
+    404: z.object({ error: z.string() }),
+  },
+});
+
+const router = createTypedRouter()
+  .get('/users', listUsers, () => {
+    throw new Error('Handlers are not called by the mock');
+  })
+  .get('/users/:id', getUser, () => {
+    throw new Error('Handlers are not called by the mock');
+  })
+  .post(
+    '/users',
+    typedRoute()
+      .body(z.object({ email: z.string().email() }))
+      .response(201, userSchema)
+      .handler(() => {
+        throw new Error('Handlers are not called by the mock');
+      })
+  )
+  .get('/avatar', route({ response: { 200: { content: 'binary', contentType: 'image/png' } } }), () => {});
+
+describe('createMockApp', () => {
+  it('responds with data generated from the declared responses', async () => {
+    const client = createTestClient(createMockApp(router), { router });
+
+    const users = await client.get('/users');
+    expect(users.status).toBe(200);
+    expect(users.body.length).toBeGreaterThanOrEqual(2);
+
+    const user = await client.get('/users/:id', { params: { id: 'u1' } });
+    expect(user.status).toBe(200);
+    expect(user.headers.get('etag')).toEqual(expect.any(String));
+
+    const created = await client.post('/users', { body: { email: 'ada@example.com' } });
+    expect(created.status).toBe(201);
+
+    const avatar = await client.get('/avatar');
+    expect(avatar.headers.get('content-type')).toBe('image/png');
+    expect(avatar.body).toBeInstanceOf(Blob);
+  });
+
+  it('validates requests against the route schemas', async () => {
+    const app = createMockApp(router, { validationErrors: 'problem' });
+
+    const invalid = await request(app).post('/users').send({ email: 'not-an-email' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.headers['content-type']).toContain('application/problem+json');
+
+    expect((await request(app).get('/users?limit=500')).status).toBe(400);
+  });
+
+  it('is deterministic for a seed and differs between seeds', async () => {
+    const first = await request(createMockApp(router, { seed: 7 })).get('/users/u1');
+    const again = await request(createMockApp(router, { seed: 7 })).get('/users/u1');
+    const other = await request(createMockApp(router, { seed: 8 })).get('/users/u1');
+
+    expect(first.body).toEqual(again.body);
+    expect(first.body).not.toEqual(other.body);
+    expect(generateFromSchema(userSchema, { seed: 3 })).toEqual(generateFromSchema(userSchema, { seed: 3 }));
+  });
+
+  it('generates addresses for ip strings', () => {
+    expect(z.string().ip({ version: 'v4' }).safeParse(generateFromSchema(z.string().ip({ version: 'v4' }))).success).toBe(true);
+    expect(z.string().ip({ version: 'v6' }).safeParse(generateFromSchema(z.string().ip({ version: 'v6' }))).success).toBe(true);
+  });
+
+  it('applies per-route status and example overrides', async () => {
+    const app = createMockApp(router, {
+      overrides: {
+        get: {
+          '/users/:id': { status: 404, example: { error: 'No such user' } },
+          '/users': { example: [] },
+        },
+      },
+    });
+
+    const missing = await request(app).get('/users/u1');
+    expect(missing.status).toBe(404);
+    expect(missing.body).toEqual({ error: 'No such user' });
+
+    expect((await request(app).get('/users')).body).toEqual([]);
+  });
+
+  it('accepts route definitions keyed by method and path', async () => {
+    const app = createMockApp({
+      get: { '/health': route({ response: { 200: z.object({ ok: z.literal(true) }) } }) },
+      delete: { '/users/:id': route({ response: { 204: { content: 'empty' } } }) },
+    });
+
+    expect((await request(app).get('/health')).body).toEqual({ ok: true });
+    expect((await request(app).delete('/users/u1')).status).toBe(204);
+  });
+
+  it('sends bigints and dates in their JSON form', async () => {
+    const app = createMockApp({
+      get: { '/balances/:id': route({ response: { 200: z.object({ cents: z.bigint(), at: z.date() }) } }) },
+    });
+
+    const response = await request(app).get('/balances/b1');
+    expect(response.status).toBe(200);
+    expect(response.body.cents).toMatch(/^\d+$/);
+    expect(new Date(response.body.at).getTime()).not.toBeNaN();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, generateOpenApiDocument, route, typedRoute } from '../../src';
+
+describe('multipart uploads', () => {
+  let app: express.Express;
+
+  const uploadPhoto = route({
+    body: z.object({ title: z.string().min(1), tags: z.array(z.string()).default([]) }),
+    files: {
+      photo: { required: true, maxSize: 1024, mimeTypes: ['image/*'] },
+      attachments: { multiple: true, maxCount: 2 },
+    },
+  });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it('parses fields and files and exposes typed req.files', async () => {
+    const router = createTypedRouter();
+
+    router.post('/photos', uploadPhoto, (req, res) => {
+      res.json({
+        title: req.body.title,
+        tags: req.body.tags,
+        photo: { name: req.files.photo.originalName, type: req.files.photo.mimeType, size: req.files.photo.size },
+        attachments: req.files.attachments.map((file) => file.buffer.toString('utf8')),
+      });
+    });
+
+    app.use(router);
+
+    const response = await request(app)
+      .post('/photos')
+      .field('title', 'Sunset')
+      .field('tags', 'beach')
+      .field('tags', 'evening')
+      .attach('photo', Buffer.from('png-bytes'), { filename: 'sunset.png', contentType: 'image/png' })
+      .attach('attachments', Buffer.from('first'), 'a.txt')
+      .attach('attachments', Buffer.from('second'), 'b.txt');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      title: 'Sunset',
+      tags: ['beach', 'evening'],
+      photo: { name: 'sunset.png', type: 'image/png', size: 9 },
+      attachments: ['first', 'second'],
+    });
+  });
+
+  it('enforces required files, counts, sizes and MIME types', async () => {
+    const router = createTypedRouter();
+
+    router.post('/photos', uploadPhoto, (_req, res) => {
+      res.end();
+    });
+
+    app.use(router);
+
+    const missing = await request(app).post('/photos').field('title', 'Sunset');
+    expect(missing.status).toBe(400);
+    expect(missing.body.details).toEqual([
+      { location: 'files', issues: [{ code: 'custom', path: ['photo'], message: 'File is required' }] },
+    ]);
+
+    const invalid = await request(app)
+      .post('/photos')
+      .field('title', 'Sunset')
+      .attach('photo', Buffer.alloc(2048), { filename: 'huge.pdf', contentType: 'application/pdf' })
+      .attach('attachments', Buffer.from('1'), 'a.txt')
+      .attach('attachments', Buffer.from('2'), 'b.txt')
+      .attach('attachments', Buffer.from('3'), 'c.txt')
+      .attach('unexpected', Buffer.from('?'), 'd.txt');
+
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.details[0].issues.map((issue: { message: string }) => issue.message)).toEqual([
+      'Unexpected file field',
+      'File exceeds 1024 bytes',
+      'Unsupported file type application/pdf',
+      'Expected at most 2 file(s)',
+    ]);
+  });
+
+  it('rejects bodies larger than the file schemas allow', async () => {
+    const router = createTypedRouter();
+
+    router.post(
+      '/avatars',
+      typedRoute()
+        .files({ avatar: { maxSize: 16 } })
+        .handler((_req, res) => {
+          res.end();
+        })
+    );
+
+    app.use(router);
+
+    const response = await request(app)
+      .post('/avatars')
+      .attach('avatar', Buffer.alloc(2 * 1024 * 1024), 'avatar.png');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details[0].location).toBe('files');
+  });
+
+  it('documents multipart request bodies', () => {
+    const router = createTypedRouter();
+
+    router.post('/photos', uploadPhoto, (_req, res) => {
+      res.end();
+    });
+
+    const requestBody = generateOpenApiDocument(router, { info: { title: 'Photos', version: '1.0.0' } }).paths['/photos']
+      ?.post?.requestBody;
+
+    expect(requestBody?.content).toEqual({
+      'multipart/form-data': {
+        schema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', minLength: 1 },
+            tags: { type: 'array', items: { type: 'string' }, default: [] },
+            photo: { type: 'string', format: 'binary' },
+            attachments: { type: 'array', items: { type: 'string', format: 'binary' }, maxItems: 2 },
+          },
+          required: ['title', 'photo'],
+        },
+      },
+    });
+  });
+});
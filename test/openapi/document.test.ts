@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { createTypedRouter, generateOpenApiDocument, route, typedRoute } from '../../src';
+
+describe('generateOpenApiDocument', () => {
+  const userSchema = z.object({ id: z.string().uuid(), name: z.string().min(1), nickname: z.string().optional() });
+  const noop = (_req: Request, res: Response): void => {
+    res.end();
+  };
+
+  it('describes registered routes, parameters, bodies and responses', () => {
+    const router = createTypedRouter();
+
+    router.get(
+      '/users/:id',
+      route({
+        params: z.object({ id: z.string().uuid() }),
+        query: z.object({ expand: z.enum(['posts', 'friends']).optional(), limit: z.coerce.number().int() }),
+        response: { 200: userSchema, 404: z.object({ error: z.string() }) },
+      }),
+      noop
+    );
+    router.post('/users', route({ body: userSchema.omit({ id: true }), response: { 201: userSchema } }), noop);
+
+    const document = generateOpenApiDocument(router, { info: { title: 'Users', version: '1.0.0' } });
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.paths)).toEqual(['/users/{id}', '/users']);
+
+    const getUser = document.paths['/users/{id}']?.get;
+    expect(getUser?.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+      { name: 'expand', in: 'query', required: false, schema: { type: 'string', enum: ['posts', 'friends'] } },
+      { name: 'limit', in: 'query', required: true, schema: { type: 'integer' } },
+    ]);
+    expect(getUser?.responses['200']).toEqual({
+      description: 'OK',
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', format: 'uuid' },
+              name: { type: 'string', minLength: 1 },
+              nickname: { type: 'string' },
+            },
+            required: ['id', 'name'],
+          },
+        },
+      },
+    });
+    expect(getUser?.responses['404']?.description).toBe('Not Found');
+
+    const createUser = document.paths['/users']?.post;
+    expect(createUser?.requestBody?.required).toBe(true);
+    expect(createUser?.requestBody?.content['application/json']?.schema).toMatchObject({ required: ['name'] });
+  });
+
+  it('includes routes from nested routers under their mount prefix', () => {
+    const root = createTypedRouter();
+    const orgs = createTypedRouter();
+    const members = createTypedRouter();
+
+    members.get('/:memberId', typedRoute().response(200, userSchema).handler(noop));
+    orgs.use('/:orgId/members', members);
+    root.use('/v1/orgs', orgs);
+
+    const document = generateOpenApiDocument(root, { info: { title: 'Orgs', version: '1.0.0' } });
+
+    expect(Object.keys(document.paths)).toEqual(['/v1/orgs/{orgId}/members/{memberId}']);
+    expect(document.paths['/v1/orgs/{orgId}/members/{memberId}']?.get?.parameters?.map((p) => p.name)).toEqual([
+      'orgId',
+      'memberId',
+    ]);
+  });
+
+  it('documents response headers declared alongside the body', () => {
+    const router = createTypedRouter();
+
+    router.post(
+      '/users',
+      typedRoute()
+        .response(201, { body: userSchema, headers: z.object({ Location: z.string() }) })
+        .response(429, {
+          body: z.object({ error: z.string() }),
+          headers: z.object({ 'Retry-After': z.coerce.number().int().optional() }),
+        })
+        .handler(noop)
+    );
+
+    const responses = generateOpenApiDocument(router, { info: { title: 'Users', version: '1.0.0' } }).paths['/users']
+      ?.post?.responses;
+
+    expect(responses?.['201']?.headers).toEqual({ Location: { required: true, schema: { type: 'string' } } });
+    expect(responses?.['429']?.headers).toEqual({ 'Retry-After': { required: false, schema: { type: 'integer' } } });
+  });
+});
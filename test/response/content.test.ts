@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, generateOpenApiDocument, route, typedRoute } from '../../src';
+
+describe('non-JSON responses', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+  });
+
+  it('sends text with the declared content type', async () => {
+    const router = createTypedRouter();
+
+    router.get('/report.csv', route({ response: { 200: { content: 'text', contentType: 'text/csv' } } }), (_req, res) => {
+      res.send('id,name\n1,Ada\n');
+    });
+    router.get('/report-returned.csv', route({ response: { 200: { content: 'text', contentType: 'text/csv' } } }), () => ({
+      status: 200,
+      body: 'id,name\n',
+    }));
+
+    app.use(router);
+
+    const sent = await request(app).get('/report.csv');
+    expect(sent.status).toBe(200);
+    expect(sent.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(sent.text).toBe('id,name\n1,Ada\n');
+
+    const returned = await request(app).get('/report-returned.csv');
+    expect(returned.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(returned.text).toBe('id,name\n');
+  });
+
+  it('supports empty, redirect and binary responses', async () => {
+    const router = createTypedRouter();
+
+    router.delete('/users/:id', route({ response: { 204: { content: 'empty' } } }), (_req, res) => {
+      res.sendStatus(204);
+    });
+    router.get('/latest', route({ response: { 302: { content: 'empty' } } }), (_req, res) => {
+      res.redirect('/v2/latest');
+    });
+    router.get(
+      '/avatar',
+      typedRoute()
+        .response(200, { content: 'binary', contentType: 'image/png' })
+        .handler((_req, res) => {
+          res.send(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+        })
+    );
+
+    app.use(router);
+
+    const deleted = await request(app).delete('/users/1');
+    expect(deleted.status).toBe(204);
+    expect(deleted.text).toBe('');
+
+    const redirected = await request(app).get('/latest');
+    expect(redirected.status).toBe(302);
+    expect(redirected.headers.location).toBe('/v2/latest');
+
+    const avatar = await request(app).get('/avatar');
+    expect(avatar.headers['content-type']).toBe('image/png');
+    expect(Buffer.from(avatar.body as Buffer)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  });
+
+  it('reports JSON sent for a status declared with another content type', async () => {
+    const router = createTypedRouter({ responseValidation: { mode: 'fail', logger: () => undefined } });
+
+    router.get('/report.csv', route({ response: { 200: { content: 'text', contentType: 'text/csv' } } }), (_req, res) => {
+      (res as unknown as express.Response).json({ rows: [] });
+    });
+
+    app.use(router);
+
+    const response = await request(app).get('/report.csv');
+    expect(response.status).toBe(500);
+  });
+
+  it('documents media types for each kind of content', () => {
+    const router = createTypedRouter();
+
+    router.get(
+      '/files/:id',
+      route({
+        response: {
+          200: { content: 'binary', contentType: 'application/pdf' },
+          204: { content: 'empty' },
+          404: { content: 'text', body: z.string().min(1) },
+        },
+      }),
+      (_req, res) => {
+        res.end();
+      }
+    );
+
+    const responses = generateOpenApiDocument(router, { info: { title: 'Files', version: '1.0.0' } }).paths['/files/{id}']
+      ?.get?.responses;
+
+    expect(responses?.['200']?.content).toEqual({
+      'application/pdf': { schema: { type: 'string', format: 'binary' } },
+    });
+    expect(responses?.['204']).toEqual({ description: 'No Content' });
+    expect(responses?.['404']?.content).toEqual({ 'text/plain': { schema: { type: 'string', minLength: 1 } } });
+  });
+});
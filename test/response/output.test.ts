@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createMockApp, createTestClient, createTypedRouter, route, sendsBigInts, transformsOutput, typedRoute } from '../../src';
+
+const eventSchema = z.object({
+  id: z.bigint().transform(String),
+  at: z.date().transform((date) => date.toISOString()),
+  tags: z.array(z.string()).default([]),
+});
+
+function buildRouter(options: { responseValidation?: 'log' | 'fail' } = {}) {
+  return createTypedRouter(options).get(
+    '/events/:id',
+    route({ response: { 200: eventSchema, 404: z.object({ error: z.string() }) } }),
+    (req, res) => {
+      if (req.params.id === 'missing') {
+        res.status(404).json({ error: 'Not found' });
+        return;
+      }
+      res.json({ id: 42n, at: new Date(0) });
+    }
+  );
+}
+
+describe('transformsOutput', () => {
+  it('detects schemas whose output differs from their input', () => {
+    expect(transformsOutput(eventSchema)).toBe(true);
+    expect(transformsOutput(z.object({ page: z.coerce.number() }))).toBe(true);
+    expect(transformsOutput(z.array(z.string().trim()))).toBe(true);
+    expect(transformsOutput(z.string().pipe(z.string().email()))).toBe(true);
+    expect(transformsOutput(z.union([z.string(), z.number().catch(0)]))).toBe(true);
+
+    expect(transformsOutput(z.object({ id: z.string().min(1), at: z.date() }))).toBe(false);
+    expect(transformsOutput(z.number().refine((value) => value > 0).optional())).toBe(false);
+  });
+
+  it('detects schemas that can send bigints', () => {
+    expect(sendsBigInts(z.object({ ids: z.array(z.bigint()).optional() }))).toBe(true);
+    expect(sendsBigInts(eventSchema)).toBe(true);
+    expect(sendsBigInts(z.object({ id: z.string(), count: z.number() }))).toBe(false);
+  });
+
+  it('handles recursive schemas', () => {
+    type Node = { name: string; children: Node[] };
+    const node: z.ZodType<Node> = z.lazy(() => z.object({ name: z.string(), children: z.array(node) }));
+    const trimmed: z.ZodType<Node, z.ZodTypeDef, unknown> = z.lazy(() =>
+      z.object({ name: z.string().trim(), children: z.array(trimmed) })
+    );
+
+    expect(transformsOutput(node)).toBe(false);
+    expect(transformsOutput(trimmed)).toBe(true);
+  });
+});
+
+describe('response output', () => {
+  it('sends bodies as parsed by transforming schemas', async () => {
+    const app = express().use(buildRouter());
+
+    const found = await request(app).get('/events/1');
+    expect(found.status).toBe(200);
+    expect(found.body).toEqual({ id: '42', at: '1970-01-01T00:00:00.000Z', tags: [] });
+
+    expect((await request(app).get('/events/missing')).body).toEqual({ error: 'Not found' });
+  });
+
+  it('sends the parsed body when response validation runs', async () => {
+    for (const responseValidation of ['log', 'fail'] as const) {
+      const response = await request(express().use(buildRouter({ responseValidation }))).get('/events/1');
+      expect(response.body).toEqual({ id: '42', at: '1970-01-01T00:00:00.000Z', tags: [] });
+    }
+  });
+
+  it('sends bigints as integer strings', async () => {
+    const schema = z.object({ id: z.bigint(), sizes: z.array(z.bigint()) });
+    for (const options of [{}, { responseValidation: 'fail' as const }, { responseValidation: 'strip' as const }]) {
+      const router = createTypedRouter(options);
+      router.get('/files/:id', route({ response: { 200: schema } }), (_req, res) => {
+        res.json({ id: 42n, sizes: [1n, -2n] });
+      });
+      router.get('/compiled', typedRoute().response(200, schema).compile().handler(() => ({ status: 200, body: { id: 7n, sizes: [] } })));
+
+      const response = await request(express().use(router)).get('/files/42');
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ id: '42', sizes: ['1', '-2'] });
+      expect((await request(express().use(router)).get('/compiled')).body).toEqual({ id: '7', sizes: [] });
+    }
+  });
+
+  it('applies to handler results and compiled serializers', async () => {
+    const router = createTypedRouter();
+    router.get(
+      '/now',
+      typedRoute()
+        .response(200, z.object({ at: z.date().transform((date) => date.getTime()), note: z.string().optional() }))
+        .compile()
+        .handler(() => ({ status: 200, body: { at: new Date(5) } }))
+    );
+
+    expect((await request(express().use(router)).get('/now')).body).toEqual({ at: 5 });
+  });
+
+  it('is left out for routes without transforming schemas', () => {
+    const plain = route({ response: { 200: z.object({ id: z.string() }) } });
+    const transformed = route({ response: { 200: eventSchema } });
+
+    expect(transformed.middleware.length).toBe(plain.middleware.length + 1);
+  });
+
+  it('is understood by the test client and mock apps', async () => {
+    const client = createTestClient(buildRouter());
+    const result = await client.get('/events/:id', { params: { id: '1' } });
+    expect(result.body).toEqual({ id: '42', at: '1970-01-01T00:00:00.000Z', tags: [] });
+
+    const mocked = await request(createMockApp(buildRouter(), { seed: 1 })).get('/events/1');
+    expect(typeof mocked.body.id).toBe('string');
+    expect(typeof mocked.body.at).toBe('string');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express from 'express';
+import type { Request, Response } from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, route, typedRoute } from '../../src';
+
+describe('response validation', () => {
+  let app: express.Express;
+  const userSchema = z.object({ id: z.string(), name: z.string() });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it('strips undeclared fields from valid responses', async () => {
+    const router = createTypedRouter();
+
+    router.get(
+      '/users/1',
+      route({ response: { 200: userSchema } }, { responseValidation: 'strip' }),
+      (_req: Request, res: Response) => {
+        res.status(200).json({ id: '1', name: 'Ada', passwordHash: 'secret' });
+      }
+    );
+
+    app.use(router);
+
+    const res = await request(app).get('/users/1');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ id: '1', name: 'Ada' });
+  });
+
+  it('fails with 500 on invalid bodies and undeclared status codes', async () => {
+    const logger = vi.fn();
+    const router = createTypedRouter({ responseValidation: { mode: 'fail', logger } });
+    const definition = route({ response: { 200: userSchema } });
+
+    router.get('/invalid', definition, (_req: Request, res: Response) => {
+      res.json({ id: 1 });
+    });
+    router.get('/undeclared', definition, (_req: Request, res: Response) => {
+      res.status(418).json({ id: '1', name: 'Ada' });
+    });
+
+    app.use(router);
+
+    const invalid = await request(app).get('/invalid');
+    expect(invalid.status).toBe(500);
+    expect(invalid.body).toEqual({ error: 'Response validation failed' });
+
+    const undeclared = await request(app).get('/undeclared');
+    expect(undeclared.status).toBe(500);
+
+    expect(logger).toHaveBeenCalledTimes(2);
+    expect(logger.mock.calls[0]?.[0]).toMatchObject({ status: 200, reason: 'invalid-body' });
+    expect(logger.mock.calls[1]?.[0]).toMatchObject({ status: 418, reason: 'undeclared-status' });
+  });
+
+  it('logs violations without altering the response and lets routes override the router', async () => {
+    const logger = vi.fn();
+    const router = createTypedRouter({ responseValidation: 'fail' });
+
+    router.get(
+      '/users/1',
+      typedRoute()
+        .response(200, userSchema)
+        .validateResponse({ mode: 'log', logger })
+        .handler((_req, res) => {
+          (res as unknown as Response).json({ id: '1' });
+        })
+    );
+
+    app.use(router);
+
+    const res = await request(app).get('/users/1');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ id: '1' });
+    expect(logger).toHaveBeenCalledOnce();
+  });
+
+  it('checks headers declared for the response status', async () => {
+    const logger = vi.fn();
+    const router = createTypedRouter({ responseValidation: { mode: 'fail', logger } });
+    const createUser = route({
+      response: { 201: { body: userSchema, headers: z.object({ Location: z.string().startsWith('/users/') }) } },
+    });
+
+    router.post('/users', createUser, (_req, res) => {
+      res.status(201).set('Location', '/users/1').json({ id: '1', name: 'Ada' });
+    });
+    router.post('/users/forgetful', createUser, (_req, res) => {
+      res.status(201).json({ id: '1', name: 'Ada' });
+    });
+    router.post('/users/returned', createUser, () => ({
+      status: 201,
+      body: { id: '2', name: 'Grace' },
+      headers: { Location: '/users/2' },
+    }));
+
+    app.use(router);
+
+    const created = await request(app).post('/users');
+    expect(created.status).toBe(201);
+    expect(created.headers.location).toBe('/users/1');
+
+    const returned = await request(app).post('/users/returned');
+    expect(returned.status).toBe(201);
+    expect(returned.headers.location).toBe('/users/2');
+
+    const forgetful = await request(app).post('/users/forgetful');
+    expect(forgetful.status).toBe(500);
+    expect(logger).toHaveBeenCalledOnce();
+    expect(logger.mock.calls[0]?.[0]).toMatchObject({ status: 201, reason: 'invalid-headers' });
+  });
+
+  it('checks responses sent without res.json()', async () => {
+    const logger = vi.fn();
+    const router = createTypedRouter({ responseValidation: { mode: 'fail', logger } });
+    const definition = route({
+      response: {
+        200: { content: 'text', body: z.string().startsWith('pong') },
+        201: { content: 'empty', headers: z.object({ Location: z.string() }) },
+        302: { content: 'empty' },
+      },
+    });
+
+    router.get('/ping', definition, (_req, res) => {
+      res.send('pong');
+    });
+    router.get('/ping/wrong', definition, (_req, res) => {
+      res.send('ping');
+    });
+    router.get('/teapot', definition, (_req, res) => {
+      res.sendStatus(418 as never);
+    });
+    router.get('/gone', definition, (_req, res) => {
+      res.status(410 as never).end();
+    });
+    router.post('/items', definition, (_req, res) => {
+      res.status(201).location('/items/1').end();
+    });
+    router.post('/items/forgetful', definition, (_req, res) => {
+      res.status(201).end();
+    });
+    router.get('/old', definition, (_req, res) => {
+      res.redirect(302, '/ping');
+    });
+
+    app.use(router);
+
+    expect((await request(app).get('/ping')).text).toBe('pong');
+    expect((await request(app).post('/items')).status).toBe(201);
+    expect((await request(app).get('/old')).status).toBe(302);
+    expect(logger).not.toHaveBeenCalled();
+
+    for (const [method, path] of [
+      ['get', '/ping/wrong'],
+      ['get', '/teapot'],
+      ['get', '/gone'],
+      ['post', '/items/forgetful'],
+    ] as const) {
+      const response = await request(app)[method](path);
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Response validation failed' });
+    }
+
+    expect(logger.mock.calls.map(([violation]) => [violation.status, violation.reason])).toEqual([
+      [200, 'invalid-body'],
+      [418, 'undeclared-status'],
+      [410, 'undeclared-status'],
+      [201, 'invalid-headers'],
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { compileSerializer, createTypedRouter, route } from '../../src';
+
+const userSchema = z.object({
+  id: z.string(),
+  age: z.number().nullable(),
+  admin: z.boolean(),
+  tags: z.array(z.string()),
+  profile: z.object({ bio: z.string().optional() }).optional(),
+});
+
+describe('compileSerializer', () => {
+  it('writes declared properties in schema order and drops the rest', () => {
+    const serialize = compileSerializer(userSchema);
+    const user = {
+      tags: ['a', 'b"c'],
+      admin: true,
+      age: null,
+      id: 'u1',
+      passwordHash: 'secret',
+      profile: { bio: undefined, internal: 1 },
+    };
+
+    expect(serialize(user)).toBe('{"id":"u1","age":null,"admin":true,"tags":["a","b\\"c"],"profile":{}}');
+  });
+
+  it('produces the same JSON as JSON.stringify for declared data', () => {
+    const schema = z.object({
+      items: z.array(z.union([z.string(), z.number()])),
+      counts: z.record(z.number()),
+      shape: z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('circle'), radius: z.number() }),
+        z.object({ kind: z.literal('square'), side: z.number() }),
+      ]),
+      createdAt: z.date(),
+      ratio: z.number(),
+      meta: z.object({ source: z.string() }).passthrough(),
+    });
+    const value = {
+      items: ['a', 1, 'b'],
+      counts: { a: 1, b: 2 },
+      shape: { kind: 'square', side: 2 },
+      createdAt: new Date(0),
+      ratio: Infinity,
+      meta: { source: 'api', extra: [1, undefined] },
+    };
+
+    expect(JSON.parse(compileSerializer(schema)(value) as string)).toEqual(JSON.parse(JSON.stringify(value)));
+  });
+
+  it('falls back to JSON.stringify for values that do not match the schema', () => {
+    const serialize = compileSerializer(z.object({ id: z.number(), tags: z.array(z.string()) }));
+
+    expect(serialize({ id: '1', tags: 'a' })).toBe('{"id":"1","tags":"a"}');
+    expect(serialize(null)).toBe('null');
+    expect(serialize([1])).toBe('[1]');
+    expect(serialize(undefined)).toBeUndefined();
+  });
+});
+
+describe('compiled response serialization', () => {
+  it('serializes declared JSON responses and leaves other statuses to Express', async () => {
+    const router = createTypedRouter({ compile: true });
+    router.get(
+      '/users/:id',
+      route({ response: { 200: userSchema, 404: { content: 'empty' } } }),
+      (req, res) => {
+        if (req.params.id === 'teapot') {
+          res.status(418).json({ brewing: true } as never);
+          return;
+        }
+        res.json({ id: req.params.id, age: 36, admin: false, tags: [], passwordHash: 'secret' } as never);
+      }
+    );
+    const app = express().use(router);
+
+    const found = await request(app).get('/users/u1');
+    expect(found.text).toBe('{"id":"u1","age":36,"admin":false,"tags":[]}');
+    expect(found.headers['content-type']).toBe('application/json; charset=utf-8');
+
+    const teapot = await request(app).get('/users/teapot');
+    expect(teapot.status).toBe(418);
+    expect(teapot.body).toEqual({ brewing: true });
+  });
+
+  it('runs inside response validation', async () => {
+    const logger = vi.fn();
+    const router = createTypedRouter({ compile: true, responseValidation: { mode: 'fail', logger } });
+    router.get('/users/u1', route({ response: { 200: userSchema } }), (_req, res) => {
+      res.json({ id: 1 } as never);
+    });
+
+    const res = await request(express().use(router)).get('/users/u1');
+
+    expect(res.status).toBe(500);
+    expect(res.body).toEqual({ error: 'Response validation failed' });
+    expect(logger).toHaveBeenCalledOnce();
+  });
+
+  it('keeps Express serialization when the app configures JSON output', async () => {
+    const router = createTypedRouter({ compile: true });
+    router.get('/users/u1', route({ response: { 200: z.object({ id: z.string() }) } }), (_req, res) => {
+      res.json({ id: 'u1', extra: true } as never);
+    });
+    const app = express().set('json spaces', 2).use(router);
+
+    expect((await request(app).get('/users/u1')).text).toBe('{\n  "id": "u1",\n  "extra": true\n}');
+  });
+});
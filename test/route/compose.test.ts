@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, defineGuard, generateOpenApiDocument, mergeRoutes, route, typedRoute } from '../../src';
+
+const errorSchema = z.object({ error: z.string() });
+
+const paginated = route({
+  query: z.object({ page: z.number().int().min(1).default(1), limit: z.number().int().max(100).default(20) }),
+});
+
+const tenantScoped = route({
+  params: z.object({ tenantId: z.string() }),
+  response: { 400: errorSchema, 500: errorSchema },
+});
+
+const issuePaths = (body: { details: Array<{ issues: Array<{ path: string[] }> }> }): string[] =>
+  body.details.flatMap((detail) => detail.issues.map((issue) => issue.path.join('.')));
+
+describe('route composition', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it('merges query, params and responses from fragments', async () => {
+    const router = createTypedRouter();
+    const listUsers = mergeRoutes(
+      paginated,
+      tenantScoped,
+      route({
+        query: z.object({ role: z.enum(['admin', 'member']).optional() }),
+        response: { 200: z.object({ tenant: z.string(), page: z.number(), limit: z.number() }) },
+      })
+    );
+
+    router.get('/tenants/:tenantId/users', listUsers, (req, res) => {
+      res.json({ tenant: req.params.tenantId, page: req.query.page, limit: req.query.limit });
+    });
+
+    app.use(router);
+
+    const response = await request(app).get('/tenants/acme/users?page=2&role=admin');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ tenant: 'acme', page: 2, limit: 20 });
+
+    const invalid = await request(app).get('/tenants/acme/users?limit=500&role=owner');
+    expect(invalid.status).toBe(400);
+    expect(issuePaths(invalid.body)).toEqual(['limit', 'role']);
+
+    const operation = generateOpenApiDocument(router, { info: { title: 'Users', version: '1.0.0' } }).paths[
+      '/tenants/{tenantId}/users'
+    ]?.get;
+    expect(Object.keys(operation?.responses ?? {})).toEqual(['200', '400', '500']);
+  });
+
+  it('deep merges nested object schemas and lets later fragments win', async () => {
+    const router = createTypedRouter();
+    const base = route({
+      body: z.object({ title: z.string(), meta: z.object({ source: z.string(), tags: z.array(z.string()) }) }),
+    });
+    const extended = mergeRoutes(
+      base,
+      route({ body: z.object({ meta: z.object({ tags: z.array(z.string()).max(2), draft: z.boolean() }) }) })
+    );
+
+    router.post('/posts', extended, (req, res) => {
+      res.status(201).json(req.body);
+    });
+
+    app.use(router);
+
+    const created = await request(app)
+      .post('/posts')
+      .send({ title: 'Hello', meta: { source: 'api', tags: ['a'], draft: true } });
+    expect(created.status).toBe(201);
+    expect(created.body).toEqual({ title: 'Hello', meta: { source: 'api', tags: ['a'], draft: true } });
+
+    const invalid = await request(app)
+      .post('/posts')
+      .send({ title: 'Hello', meta: { source: 'api', tags: ['a', 'b', 'c'] } });
+    expect(invalid.status).toBe(400);
+    expect(issuePaths(invalid.body)).toEqual(['meta.tags', 'meta.draft']);
+  });
+
+  it('extends definitions from the route builder and keeps guards in order', async () => {
+    const router = createTypedRouter();
+    const calls: string[] = [];
+    const first = defineGuard({ name: 'first', check: () => (calls.push('first'), { first: true }) });
+    const second = defineGuard({ name: 'second', check: () => (calls.push('second'), { second: true }) });
+
+    router.get(
+      '/tenants/:tenantId/reports',
+      typedRoute()
+        .extend(mergeRoutes(route({ guards: [first] }), paginated))
+        .guard(second)
+        .extend(tenantScoped)
+        .response(200, z.object({ tenant: z.string(), page: z.number() }))
+        .handler((req) => ({ status: 200, body: { tenant: req.params.tenantId, page: req.query.page } }))
+    );
+
+    app.use(router);
+
+    const response = await request(app).get('/tenants/acme/reports?page=3');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ tenant: 'acme', page: 3 });
+    expect(calls).toEqual(['first', 'second']);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, route, typedRoute } from '../../src';
+
+describe('handler wrapping', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  const errorHandler = (err: Error, _req: Request, res: Response, _next: NextFunction): void => {
+    res.status(500).json({ message: err.message });
+  };
+
+  it('forwards rejected promises to the error handler', async () => {
+    const router = createTypedRouter();
+
+    router.get('/router', route({}), async () => {
+      throw new Error('router failure');
+    });
+    router.get(
+      '/builder',
+      typedRoute().handler(async () => {
+        await Promise.resolve();
+        throw new Error('builder failure');
+      })
+    );
+
+    app.use(router);
+    app.use(errorHandler);
+
+    const fromRouter = await request(app).get('/router');
+    expect(fromRouter.status).toBe(500);
+    expect(fromRouter.body).toEqual({ message: 'router failure' });
+
+    const fromBuilder = await request(app).get('/builder');
+    expect(fromBuilder.body).toEqual({ message: 'builder failure' });
+  });
+
+  it('forwards errors thrown while sending an async result', async () => {
+    const router = createTypedRouter();
+    const unserializable = {
+      toJSON(): never {
+        throw new Error('cannot serialize');
+      },
+    };
+
+    router.get('/broken', route({}), async () => ({ status: 200, body: unserializable }));
+
+    app.use(router);
+    app.use(errorHandler);
+
+    const response = await request(app).get('/broken');
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({ message: 'cannot serialize' });
+  });
+
+  it('sends returned { status, body, headers } results', async () => {
+    const router = createTypedRouter();
+    const userSchema = z.object({ id: z.string() });
+
+    router.post(
+      '/users',
+      route({ body: z.object({ id: z.string() }), response: { 201: userSchema, 409: z.object({ error: z.string() }) } }),
+      async (req) => {
+        if (req.body.id === 'taken') {
+          return { status: 409, body: { error: 'Conflict' } };
+        }
+
+        return { status: 201, body: { id: req.body.id }, headers: { Location: `/users/${req.body.id}` } };
+      }
+    );
+    router.delete(
+      '/users/:id',
+      typedRoute().handler(() => ({ status: 204 }))
+    );
+
+    app.use(router);
+
+    const created = await request(app).post('/users').send({ id: 'ada' });
+    expect(created.status).toBe(201);
+    expect(created.headers.location).toBe('/users/ada');
+    expect(created.body).toEqual({ id: 'ada' });
+
+    const conflict = await request(app).post('/users').send({ id: 'taken' });
+    expect(conflict.status).toBe(409);
+    expect(conflict.body).toEqual({ error: 'Conflict' });
+
+    const deleted = await request(app).delete('/users/ada');
+    expect(deleted.status).toBe(204);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, defineGuard, generateOpenApiDocument, route, typedRoute } from '../../src';
+import { flattenRoutes } from '../../src/router/registry';
+
+const errorSchema = z.object({ error: z.string() });
+
+describe('router defaults and mounting', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it('applies default schemas, guards and responses to every route', async () => {
+    const auth = defineGuard({
+      name: 'auth',
+      responses: { 401: errorSchema },
+      check: (req, deny) => (req.get('authorization') ? { userId: 'u1' } : deny(401, { error: 'Sign in' })),
+    });
+    const router = createTypedRouter({
+      defaults: route({ guards: [auth], response: { 500: errorSchema } }),
+      responseValidation: 'fail',
+    });
+
+    router.get('/me', route({ response: { 200: z.object({ id: z.string() }) } }), (req, res) => {
+      res.json({ id: req.userId });
+    });
+    router.get('/broken', route({ response: { 200: z.object({ ok: z.boolean() }) } }), (_req, res) => {
+      res.status(500).json({ error: 'Database unavailable' });
+    });
+    router.get(
+      '/health',
+      typedRoute()
+        .response(200, z.object({ ok: z.boolean() }))
+        .handler(() => ({ status: 200, body: { ok: true } }))
+    );
+
+    app.use(router);
+
+    expect((await request(app).get('/me')).status).toBe(401);
+
+    const me = await request(app).get('/me').set('Authorization', 'token');
+    expect(me.body).toEqual({ id: 'u1' });
+
+    const broken = await request(app).get('/broken').set('Authorization', 'token');
+    expect(broken.status).toBe(500);
+    expect(broken.body).toEqual({ error: 'Database unavailable' });
+
+    expect((await request(app).get('/health')).status).toBe(401);
+    expect((await request(app).get('/health').set('Authorization', 'token')).body).toEqual({ ok: true });
+
+    const operation = generateOpenApiDocument(router, { info: { title: 'Me', version: '1.0.0' } }).paths['/me']?.get;
+    expect(Object.keys(operation?.responses ?? {})).toEqual(['200', '401', '500']);
+  });
+
+  it('passes parent params to routers mounted with mount()', async () => {
+    const router = createTypedRouter();
+    const members = createTypedRouter().get(
+      '/',
+      route({ query: z.object({ role: z.string().optional() }) }),
+      (req, res) => {
+        res.json({ org: req.params.orgId, team: req.params.teamId, role: req.query.role ?? null });
+      }
+    );
+
+    router.mount('/orgs/:orgId', (orgs) =>
+      orgs
+        .get('/teams/:teamId', route({ params: z.object({ teamId: z.coerce.number() }) }), (req, res) => {
+          res.json({ org: req.params.orgId, team: req.params.teamId });
+        })
+        .mount('/teams/:teamId/members', members)
+    );
+
+    app.use(router);
+
+    const team = await request(app).get('/orgs/acme/teams/7');
+    expect(team.body).toEqual({ org: 'acme', team: 7 });
+
+    const listed = await request(app).get('/orgs/acme/teams/7/members?role=admin');
+    expect(listed.body).toEqual({ org: 'acme', team: '7', role: 'admin' });
+
+    expect(flattenRoutes(router).map(({ method, path }) => `${method} ${path}`)).toEqual([
+      'get /orgs/:orgId/teams/:teamId',
+      'get /orgs/:orgId/teams/:teamId/members',
+    ]);
+  });
+
+  it('builds mounted routers with the parent options', async () => {
+    const router = createTypedRouter({ validationErrors: 'problem' });
+
+    router.mount('/v1', (v1) =>
+      v1.post('/users', route({ body: z.object({ name: z.string() }) }), (_req, res) => {
+        res.status(201).json({});
+      })
+    );
+
+    app.use(router);
+
+    const invalid = await request(app).post('/v1/users').send({});
+    expect(invalid.status).toBe(400);
+    expect(invalid.headers['content-type']).toContain('application/problem+json');
+  });
+});
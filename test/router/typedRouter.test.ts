@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import express from 'express';
 import request from 'supertest';
 import { z } from 'zod';
@@ -32,3 +32,80 @@ describe('createTypedRouter', () => {
     expect(res.body).toEqual({ message: 'Hello Ada' });
   });
 });
+
+describe('typed methods and route chaining', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it('validates routes registered with all(), head() and options()', async () => {
+    const router = createTypedRouter();
+    const params = z.object({ id: z.string().regex(/^\d+$/) });
+
+    router.all('/items/:id', route({ params }), (req, res) => {
+      res.json({ method: req.method, id: req.params.id });
+    });
+    router.options('/items', route({}), (_req, res) => {
+      res.set('Allow', 'GET, POST').status(204).end();
+    });
+    router.head('/health', route({}), (_req, res) => {
+      res.set('X-Health', 'ok').end();
+    });
+
+    app.use(router);
+
+    const put = await request(app).put('/items/7');
+    expect(put.body).toEqual({ method: 'PUT', id: '7' });
+
+    const invalid = await request(app).delete('/items/abc');
+    expect(invalid.status).toBe(400);
+
+    const options = await request(app).options('/items');
+    expect(options.status).toBe(204);
+    expect(options.headers.allow).toBe('GET, POST');
+
+    const head = await request(app).head('/health');
+    expect(head.headers['x-health']).toBe('ok');
+
+    expect(router.routes.map((registered) => registered.method)).toEqual(['all', 'options', 'head']);
+  });
+
+  it('applies route definitions per verb in route() chains', async () => {
+    const router = createTypedRouter();
+
+    router
+      .route('/users/:id')
+      .get(route({ query: z.object({ fields: z.string().optional() }) }), (req, res) => {
+        res.json({ id: req.params.id, fields: req.query.fields ?? null });
+      })
+      .put(route({ body: z.object({ name: z.string() }) }), (req, res) => {
+        res.json({ id: req.params.id, name: req.body.name });
+      });
+
+    app.use(router);
+
+    const get = await request(app).get('/users/1?fields=name');
+    expect(get.body).toEqual({ id: '1', fields: 'name' });
+
+    const put = await request(app).put('/users/1').send({ name: 'Ada' });
+    expect(put.body).toEqual({ id: '1', name: 'Ada' });
+
+    const invalid = await request(app).put('/users/1').send({});
+    expect(invalid.status).toBe(400);
+
+    expect(router.routes.map(({ method, path }) => `${method} ${path}`)).toEqual(['get /users/:id', 'put /users/:id']);
+  });
+
+  it('registers typed methods without going through the typed route() chain', () => {
+    const router = createTypedRouter();
+    const chain = vi.spyOn(router, 'route');
+
+    router.get('/users', route({}), () => undefined);
+
+    expect(chain).not.toHaveBeenCalled();
+    expect(router.routes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import {
+  createRouteManifest,
+  createTestClient,
+  createTypedRouter,
+  diffRouteManifests,
+  generateOpenApiDocument,
+  route,
+  typedRoute,
+  UnsupportedVersionError,
+} from '../../src';
+import type { TypedRouterOptions, VersioningOptions } from '../../src';
+
+const v1User = z.object({ id: z.string(), name: z.string() });
+const v2User = z.object({ id: z.string(), firstName: z.string(), lastName: z.string() });
+
+function buildRouter(versioning: VersioningOptions, options: Pick<TypedRouterOptions, 'validationErrors'> = {}) {
+  return createTypedRouter({ versioning, ...options })
+    .get(
+      '/users/:id',
+      route({
+        meta: { version: '1', deprecated: new Date('2026-01-01T00:00:00Z'), sunset: new Date('2027-01-01T00:00:00Z') },
+        response: { 200: v1User },
+      }),
+      (req, res) => {
+        res.json({ id: req.params.id, name: 'Ada Lovelace' });
+      }
+    )
+    .get(
+      '/users/:id',
+      route({ meta: { version: '2' }, response: { 200: v2User } }),
+      (req, res) => {
+        res.json({ id: req.params.id, firstName: 'Ada', lastName: 'Lovelace' });
+      }
+    )
+    .get('/videos', route({}), (_req, res) => {
+      res.json({ videos: [] });
+    });
+}
+
+describe('versioned routes', () => {
+  it('selects versions with a header', async () => {
+    const app = express().use(buildRouter({ strategy: 'header' }));
+
+    expect((await request(app).get('/users/1').set('Accept-Version', '1')).body).toEqual({ id: '1', name: 'Ada Lovelace' });
+    expect((await request(app).get('/users/1').set('Accept-Version', 'v2')).body).toEqual({
+      id: '1',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+    });
+    // Requests without a version get the latest one
+    expect((await request(app).get('/users/1')).body).toHaveProperty('firstName');
+  });
+
+  it('selects versions with a path prefix', async () => {
+    const app = express().use('/api', buildRouter({ strategy: 'path', defaultVersion: '1' }));
+
+    expect((await request(app).get('/api/v2/users/1')).body).toHaveProperty('firstName');
+    expect((await request(app).get('/api/v1/users/1?expand=true')).body).toHaveProperty('name');
+    expect((await request(app).get('/api/users/1')).body).toHaveProperty('name');
+    expect((await request(app).get('/api/videos')).body).toEqual({ videos: [] });
+  });
+
+  it('only reads path prefixes in front of a versioned route', async () => {
+    const router = buildRouter({ strategy: 'path' }).get('/v1/status', route({}), (_req, res) => {
+      res.json({ ok: true });
+    });
+    const app = express().use('/api', router);
+
+    expect((await request(app).get('/api/v2/videos')).status).toBe(404);
+    expect((await request(app).get('/api/v9/videos')).status).toBe(404);
+    expect((await request(app).get('/api/v1/status')).body).toEqual({ ok: true });
+
+    const unknown = await request(app).get('/api/v9/users/1');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body).toEqual({ error: 'Unsupported API version', version: '9', supported: ['1', '2'] });
+  });
+
+  it('restores the url when no versioned route matches', async () => {
+    const app = express()
+      .use(buildRouter({ strategy: 'path' }))
+      .use((req, res) => {
+        res.status(404).json({ url: req.url });
+      });
+
+    expect((await request(app).get('/v2/missing')).body).toEqual({ url: '/v2/missing' });
+  });
+
+  it('selects versions with a vendor media type', async () => {
+    const app = express().use(buildRouter({ strategy: 'media-type', vendor: 'acme' }));
+
+    const v1 = await request(app).get('/users/1').set('Accept', 'application/vnd.acme.v1+json');
+    expect(v1.body).toHaveProperty('name');
+
+    const v2 = await request(app).get('/users/1').set('Accept', 'text/html, application/vnd.acme.v2+json;q=0.9');
+    expect(v2.body).toHaveProperty('firstName');
+
+    const other = await request(app).get('/users/1').set('Accept', 'application/vnd.other.v1+json');
+    expect(other.body).toHaveProperty('firstName');
+  });
+
+  it('sends Deprecation and Sunset headers for deprecated versions', async () => {
+    const app = express().use(buildRouter({ strategy: 'header' }));
+
+    const v1 = await request(app).get('/users/1').set('Accept-Version', '1');
+    expect(v1.headers.deprecation).toBe(`@${Date.parse('2026-01-01T00:00:00Z') / 1000}`);
+    expect(v1.headers.sunset).toBe('Fri, 01 Jan 2027 00:00:00 GMT');
+
+    const v2 = await request(app).get('/users/1').set('Accept-Version', '2');
+    expect(v2.headers.deprecation).toBeUndefined();
+    expect(v2.headers.sunset).toBeUndefined();
+  });
+
+  it('rejects unknown versions with a status for the strategy', async () => {
+    const header = await request(express().use(buildRouter({ strategy: 'header' })))
+      .get('/users/1')
+      .set('Accept-Version', '3');
+    expect(header.status).toBe(400);
+    expect(header.body).toEqual({ error: 'Unsupported API version', version: '3', supported: ['1', '2'] });
+
+    const path = await request(
+      express().use(buildRouter({ strategy: 'path', defaultVersion: '3' }, { validationErrors: 'problem' }))
+    ).get('/users/1');
+    expect(path.status).toBe(404);
+    expect(path.headers['content-type']).toContain('application/problem+json');
+    expect(path.body).toMatchObject({ title: 'Not Found', detail: 'Expected one of: 1, 2' });
+
+    const mediaType = await request(express().use(buildRouter({ strategy: 'media-type', defaultVersion: '3' })))
+      .get('/users/1')
+      .set('Accept', 'application/json');
+    expect(mediaType.status).toBe(406);
+    expect(mediaType.body).toEqual({ error: 'Unsupported API version', supported: ['1', '2'] });
+  });
+
+  it('formats unknown versions with custom formatters', async () => {
+    const app = express().use(
+      buildRouter(
+        { strategy: 'header', header: 'X-API-Version' },
+        { validationErrors: (errors) => ({ status: 422, body: { errors } }) }
+      )
+    );
+
+    const response = await request(app).get('/users/1').set('X-API-Version', '3');
+    expect(response.status).toBe(422);
+    expect(response.body.errors).toEqual([
+      {
+        location: 'headers',
+        issues: [
+          { code: 'custom', path: ['x-api-version'], message: 'Unsupported API version 3. Expected one of: 1, 2' },
+        ],
+      },
+    ]);
+  });
+
+  it('passes the typed error to error handlers with the next strategy', async () => {
+    let caught: unknown;
+    const app = express()
+      .use(buildRouter({ strategy: 'header' }, { validationErrors: 'next' }))
+      .use((err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+        caught = err;
+        res.status(418).end();
+      });
+
+    expect((await request(app).get('/users/1').set('Accept-Version', '9')).status).toBe(418);
+    expect(caught).toBeInstanceOf(UnsupportedVersionError);
+    expect(caught).toMatchObject({ version: '9', supported: ['1', '2'], status: 400 });
+  });
+
+  it('supports builders, route chains, defaults and mounted routers', async () => {
+    const router = createTypedRouter({ versioning: { strategy: 'header' } });
+    router
+      .route('/items')
+      .get(typedRoute().meta({ version: '1' }).handler(() => ({ status: 200, body: { version: 1 } })))
+      .get(typedRoute().meta({ version: '2' }).handler(() => ({ status: 200, body: { version: 2 } })));
+    router.mount('/orgs/:orgId', (orgs) =>
+      orgs
+        .get('/teams', route({ meta: { version: '1' } }), (req, res) => {
+          res.json({ orgId: req.params.orgId, version: 1 });
+        })
+        .get('/teams', route({ meta: { version: '2' } }), (req, res) => {
+          res.json({ orgId: req.params.orgId, version: 2 });
+        })
+    );
+    const app = express().use(router);
+
+    expect((await request(app).get('/items').set('Accept-Version', '1')).body).toEqual({ version: 1 });
+    expect((await request(app).get('/items')).body).toEqual({ version: 2 });
+    expect((await request(app).get('/orgs/acme/teams').set('Accept-Version', '1')).body).toEqual({
+      orgId: 'acme',
+      version: 1,
+    });
+
+    const defaulted = createTypedRouter({
+      versioning: { strategy: 'header' },
+      defaults: route({ meta: { version: '3' } }),
+    }).get('/status', route({}), (_req, res) => {
+      res.json({ ok: true });
+    });
+    expect((await request(express().use(defaulted)).get('/status').set('Accept-Version', '3')).body).toEqual({ ok: true });
+  });
+
+  it('requires a versioning strategy for versioned routes', () => {
+    expect(() => createTypedRouter().get('/users', route({ meta: { version: '1' } }), () => undefined)).toThrow(
+      'Route GET /users declares version 1 but its router has no versioning strategy'
+    );
+  });
+
+  it('reads path versions for routers built in place once, at the parent', async () => {
+    const router = createTypedRouter({ versioning: { strategy: 'path' } }).mount('/orgs/:orgId', (orgs) =>
+      orgs
+        .get('/teams', route({ meta: { version: '1' } }), (req, res) => {
+          res.json({ orgId: req.params.orgId, version: 1 });
+        })
+        .get('/teams', route({ meta: { version: '2' } }), (req, res) => {
+          res.json({ orgId: req.params.orgId, version: 2 });
+        })
+        .get('/v1/members', route({}), (_req, res) => {
+          res.json({ members: [] });
+        })
+    );
+    const app = express().use('/api', router);
+
+    expect((await request(app).get('/api/v1/orgs/acme/teams')).body).toEqual({ orgId: 'acme', version: 1 });
+    expect((await request(app).get('/api/orgs/acme/teams')).body).toEqual({ orgId: 'acme', version: 2 });
+    expect((await request(app).get('/api/v9/orgs/acme/teams')).status).toBe(404);
+    expect((await request(app).get('/api/orgs/acme/v1/members')).body).toEqual({ members: [] });
+  });
+
+  it('checks client responses against the requested version', async () => {
+    const header = createTestClient(buildRouter({ strategy: 'header' }));
+    expect((await header.get('/users/:id', { params: { id: '1' }, headers: { 'accept-version': '1' } })).body).toEqual({
+      id: '1',
+      name: 'Ada Lovelace',
+    });
+    expect((await header.get('/users/:id', { params: { id: '1' } })).body).toEqual({
+      id: '1',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+    });
+
+    const path = createTestClient(buildRouter({ strategy: 'path', defaultVersion: '1' }), { basePath: '/v2' });
+    expect((await path.get('/users/:id', { params: { id: '1' } })).body).toHaveProperty('firstName');
+    const defaulted = createTestClient(buildRouter({ strategy: 'path', defaultVersion: '1' }));
+    expect((await defaulted.get('/users/:id', { params: { id: '1' } })).body).toHaveProperty('name');
+
+    const mediaType = createTestClient(buildRouter({ strategy: 'media-type' }), {
+      headers: { Accept: 'application/vnd.acme.v1+json' },
+    });
+    expect((await mediaType.get('/users/:id', { params: { id: '1' } })).body).toHaveProperty('name');
+  });
+
+  it('records versions for documents and manifests', () => {
+    const router = buildRouter({ strategy: 'header' });
+
+    const document = generateOpenApiDocument(router, { info: { title: 'Users', version: '1.0.0' }, version: 'v1' });
+    expect(document.paths['/users/{id}']?.get?.deprecated).toBe(true);
+    expect(Object.keys(document.paths)).toEqual(['/users/{id}', '/videos']);
+
+    const manifest = createRouteManifest(router);
+    expect(manifest.routes.map(({ path, version }) => [path, version])).toEqual([
+      ['/users/:id', '1'],
+      ['/users/:id', '2'],
+      ['/videos', undefined],
+    ]);
+
+    const next = { ...manifest, routes: manifest.routes.filter((entry) => entry.version !== '1') };
+    expect(diffRouteManifests(manifest, next).changes).toEqual([
+      { method: 'get', path: '/users/:id', version: '1', location: 'route', severity: 'breaking', message: 'Route was removed' },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import express from 'express';
+import { z } from 'zod';
+import { createTestClient, createTypedRouter, ResponseValidationError, route, typedRoute } from '../../src';
+
+const userSchema = z.object({ id: z.string(), name: z.string() });
+
+function buildRouter() {
+  return createTypedRouter()
+    .get(
+      '/users/:id',
+      route({
+        params: z.object({ id: z.string() }),
+        query: z.object({ verbose: z.coerce.boolean().optional() }),
+        response: { 200: userSchema, 404: z.object({ error: z.string() }) },
+      }),
+      (req, res) => {
+        if (req.params.id === 'missing') {
+          res.status(404).json({ error: 'Not found' });
+          return;
+        }
+
+        res.json({ id: req.params.id, name: req.query.verbose ? 'Ada Lovelace' : 'Ada' });
+      }
+    )
+    .post(
+      '/users',
+      typedRoute()
+        .body(z.object({ name: z.string() }))
+        .response(201, userSchema)
+        .response(204, { content: 'empty' })
+        .handler((req) =>
+          req.body.name === 'nobody' ? { status: 204 } : { status: 201, body: { id: 'u2', name: req.body.name } }
+        )
+    )
+    .delete('/users/:id', route({ response: { 200: userSchema } }), (_req, res) => {
+      res.json({ id: 1 } as unknown as z.infer<typeof userSchema>);
+    });
+}
+
+describe('createTestClient', () => {
+  it('calls routes in process with typed params, query and body', async () => {
+    const client = createTestClient(buildRouter());
+
+    const found = await client.get('/users/:id', { params: { id: 'u1' }, query: { verbose: true } });
+    expect(found).toMatchObject({ status: 200, body: { id: 'u1', name: 'Ada Lovelace' } });
+
+    const missing = await client.get('/users/:id', { params: { id: 'missing' } });
+    expect(missing.status).toBe(404);
+    if (missing.status === 404) expect(missing.body.error).toBe('Not found');
+
+    const created = await client.post('/users', { body: { name: 'Grace' } });
+    expect(created).toMatchObject({ status: 201, body: { id: 'u2', name: 'Grace' } });
+    expect(created.headers.get('content-type')).toContain('application/json');
+
+    expect(await client.post('/users', { body: { name: 'nobody' } })).toMatchObject({ status: 204, body: undefined });
+  });
+
+  it('rejects responses that do not match the schema for their status', async () => {
+    const client = createTestClient(buildRouter());
+
+    await expect(client.delete('/users/:id', { params: { id: 'u1' } })).rejects.toBeInstanceOf(
+      ResponseValidationError
+    );
+    await expect(client.post('/users', { body: {} as { name: string } })).rejects.toMatchObject({
+      violation: { reason: 'undeclared-status', status: 400 },
+    });
+  });
+
+  it('runs requests through an app and its middleware', async () => {
+    const router = buildRouter();
+    const app = express();
+    app.use((req, res, next) => {
+      if (req.get('authorization') !== 'Bearer token') {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      next();
+    });
+    app.use(express.json());
+    app.use('/api', router);
+
+    const client = createTestClient(app, { router, basePath: '/api', headers: { authorization: 'Bearer token' } });
+    expect((await client.get('/users/:id', { params: { id: 'u1' } })).body).toEqual({ id: 'u1', name: 'Ada' });
+
+    const anonymous = createTestClient(app, { router, basePath: '/api' });
+    await expect(anonymous.get('/users/:id', { params: { id: 'u1' } })).rejects.toMatchObject({
+      violation: { reason: 'undeclared-status', status: 401 },
+    });
+  });
+
+  it('checks dates and bigints in their JSON form', async () => {
+    const router = createTypedRouter().get(
+      '/events',
+      route({ response: { 200: z.object({ at: z.date().min(new Date(0)), count: z.bigint().optional() }) } }),
+      (_req, res) => {
+        res.json({ at: new Date(0) });
+      }
+    );
+    const client = createTestClient(router);
+
+    expect((await client.get('/events')).body).toEqual({ at: '1970-01-01T00:00:00.000Z' });
+
+    const early = createTypedRouter().get(
+      '/events',
+      route({ response: { 200: z.object({ at: z.date().min(new Date(1)) }) } }),
+      (_req, res) => {
+        res.json({ at: new Date(0) });
+      }
+    );
+    await expect(createTestClient(early).get('/events')).rejects.toMatchObject({ violation: { reason: 'invalid-body' } });
+  });
+
+  it('checks transforming schemas against their output side', async () => {
+    const schema = z.object({
+      n: z.number(),
+      tags: z.array(z.string()).default([]),
+      at: z.date().transform((date) => date.getTime()),
+    });
+    const build = (body: unknown) =>
+      createTypedRouter().get('/stats', route({ response: { 200: schema } }), (_req, res) => {
+        res.json(body as z.input<typeof schema>);
+      });
+
+    expect((await createTestClient(build({ n: 1, at: new Date(5) })).get('/stats')).body).toEqual({ n: 1, tags: [], at: 5 });
+    await expect(createTestClient(build({ n: 'not a number', tags: [], at: new Date(5) })).get('/stats')).rejects.toMatchObject({
+      violation: { reason: 'invalid-body', issues: [{ path: ['n'] }] },
+    });
+  });
+});
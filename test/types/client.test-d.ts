@@ -0,0 +1,148 @@
+import { expectType, expectError } from 'tsd';
+import { z } from 'zod';
+import express from 'express';
+import { createClient, createMockApp, createTestClient, createTypedRouter, route } from '../../src';
+
+const router = createTypedRouter()
+  .get(
+    '/users/:id',
+    route({
+      params: z.object({ id: z.string() }),
+      response: { 200: z.object({ id: z.string() }), 404: z.object({ error: z.string() }) },
+    }),
+    (_req, res) => {
+      res.status(200).json({ id: '1' });
+    }
+  )
+  .post('/users', route({ body: z.object({ name: z.string() }) }), (_req, res) => {
+    res.json({ ok: true });
+  });
+
+const client = createClient<typeof router>({ baseUrl: 'http://localhost' });
+
+(async () => {
+  const result = await client.get('/users/:id', { params: { id: '1' } });
+
+  if (result.status === 200) {
+    expectType<{ id: string }>(result.body);
+  } else {
+    expectType<404>(result.status);
+    expectType<{ error: string }>(result.body);
+  }
+
+  const created = await client.post('/users', { body: { name: 'Ada' } });
+  expectType<number>(created.status);
+  expectType<unknown>(created.body);
+
+  // Unknown paths, missing params and wrong body shapes are rejected
+  expectError(client.get('/posts'));
+  expectError(client.get('/users/:id'));
+  expectError(client.post('/users', { body: { name: 1 } }));
+  expectError(client.put('/users', {}));
+})();
+
+const inferred = createTypedRouter().get('/orgs/:orgId/teams/:teamId?', route({}), (req, res) => {
+  res.json(req.params);
+});
+const inferredClient = createClient<typeof inferred>({ baseUrl: 'http://localhost' });
+
+inferredClient.get('/orgs/:orgId/teams/:teamId?', { params: { orgId: 'acme' } });
+expectError(inferredClient.get('/orgs/:orgId/teams/:teamId?', { params: { teamId: 'core' } }));
+
+// Mounted routers see the parent's params and their routes are prefixed in the route map
+const errorResponse = z.object({ error: z.string() });
+const mounted = createTypedRouter({ defaults: route({ response: { 500: errorResponse } }) }).mount(
+  '/orgs/:orgId/',
+  (orgs) =>
+    orgs.get('/teams/:teamId', route({ response: { 200: z.object({ id: z.string() }) } }), (req, res) => {
+      expectType<string>(req.params.orgId);
+      expectType<string>(req.params.teamId);
+      res.status(500).json({ error: 'unavailable' });
+    })
+);
+const mountedClient = createClient<typeof mounted>({ baseUrl: 'http://localhost' });
+
+(async () => {
+  const team = await mountedClient.get('/orgs/:orgId/teams/:teamId', { params: { orgId: 'acme', teamId: 'core' } });
+  if (team.status === 500) expectType<{ error: string }>(team.body);
+  expectError(mountedClient.get('/teams/:teamId', { params: { teamId: 'core' } }));
+  expectError(mountedClient.get('/orgs/:orgId/teams/:teamId', { params: { teamId: 'core' } }));
+})();
+
+// The test harness shares the client's types, for routers and for apps given their router
+const testClient = createTestClient(router);
+const appClient = createTestClient(express(), { router });
+
+(async () => {
+  const result = await testClient.get('/users/:id', { params: { id: '1' } });
+  if (result.status === 200) expectType<{ id: string }>(result.body);
+
+  expectType<typeof result>(await appClient.get('/users/:id', { params: { id: '1' } }));
+  expectError(testClient.get('/users/:id', { params: { id: 1 } }));
+  expectError(createTestClient(express()));
+})();
+
+// Mock overrides are keyed by method and path, with examples typed by status
+createMockApp(router, { overrides: { get: { '/users/:id': { status: 404, example: { error: 'Not found' } } } } });
+expectError(createMockApp(router, { overrides: { get: { '/users/:id': { status: 404, example: { id: '1' } } } } }));
+expectError(createMockApp(router, { overrides: { get: { '/users/:id': { status: 500 } } } }));
+expectError(createMockApp(router, { overrides: { get: { '/posts': {} } } }));
+
+// Clients send a schema's input and receive its output, handlers send the response input
+const event = z.object({ at: z.date().transform((date) => date.toISOString()), id: z.bigint().transform(String) });
+const events = createTypedRouter().post(
+  '/events/:page',
+  route({
+    params: z.object({ page: z.coerce.number() }),
+    query: z.object({ limit: z.number().default(10) }),
+    body: z.object({ tags: z.array(z.string()).default([]) }),
+    response: { 201: event },
+  }),
+  (req, res) => {
+    expectType<number>(req.params.page);
+    expectType<number>(req.query.limit);
+    expectType<string[]>(req.body.tags);
+    res.status(201).json({ at: new Date(), id: 1n });
+    expectError(res.status(201).json({ at: 'now', id: '1' }));
+  }
+);
+const eventsClient = createClient<typeof events>({ baseUrl: 'http://localhost' });
+
+(async () => {
+  const created = await eventsClient.post('/events/:page', { params: { page: 2 }, query: {}, body: {} });
+  if (created.status === 201) expectType<{ at: string; id: string }>(created.body);
+})();
+
+// Versions of a method and path are alternatives in the route map, each handler typed by its own definition
+const versioned = createTypedRouter({ versioning: { strategy: 'header' } })
+  .get('/items/:id', route({ meta: { version: '1' }, response: { 200: z.object({ name: z.string() }) } }), (req, res) => {
+    res.json({ name: req.params.id });
+    expectError(res.json({ title: req.params.id }));
+  })
+  .get('/items/:id', route({ meta: { version: '2' }, response: { 200: z.object({ title: z.string() }) } }), (req, res) => {
+    res.json({ title: req.params.id });
+  });
+const versionedClient = createClient<typeof versioned>({ baseUrl: 'http://localhost' });
+
+(async () => {
+  const item = await versionedClient.get('/items/:id', { params: { id: '1' }, headers: { 'Accept-Version': '2' } });
+  if (item.status === 200) expectType<{ name: string } | { title: string }>(item.body);
+})();
+
+// Client bodies are typed in their JSON form
+const dated = createTypedRouter().get(
+  '/dated',
+  route({ response: { 200: z.object({ at: z.date(), count: z.bigint(), tags: z.array(z.date()).optional() }) } }),
+  (_req, res) => {
+    res.json({ at: new Date(), count: 1n });
+  }
+);
+
+(async () => {
+  const result = await createClient<typeof dated>({ baseUrl: 'http://localhost' }).get('/dated');
+  if (result.status === 200) {
+    expectType<string>(result.body.at);
+    expectType<string>(result.body.count);
+    expectType<string[] | undefined>(result.body.tags);
+  }
+})();
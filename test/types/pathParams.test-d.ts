@@ -0,0 +1,45 @@
+import { expectType, expectError } from 'tsd';
+import { z } from 'zod';
+import { createTypedRouter, route, typedRoute } from '../../src';
+import type { PathParams } from '../../src';
+
+expectType<{ id: string }>(null as any as PathParams<'/users/:id'>);
+expectType<{ orgId: string; teamId?: string }>(null as any as PathParams<'/orgs/:orgId/teams/:teamId?'>);
+expectType<{ id: string; format: string }>(null as any as PathParams<'/files/:id(\\d+)/:format'>);
+expectType<{}>(null as any as PathParams<'/health'>);
+expectType<Record<string, string>>(null as any as PathParams<string>);
+
+const router = createTypedRouter();
+
+// Without a params schema, req.params comes from the path
+router.get('/orgs/:orgId/members/:memberId?', route({}), (req) => {
+  expectType<string>(req.params.orgId);
+  expectType<string | undefined>(req.params.memberId);
+});
+
+// With a matching params schema, req.params is the schema output
+router.get('/users/:id', route({ params: z.object({ id: z.coerce.number() }) }), (req) => {
+  expectType<number>(req.params.id);
+});
+
+// Schema keys that disagree with the path are rejected
+expectError(router.get('/users/:id', route({ params: z.object({ userId: z.string() }) })));
+expectError(router.get('/users/:id/posts/:postId', route({ params: z.object({ id: z.string() }) })));
+expectError(router.get('/users/:id', typedRoute().params(z.object({ uid: z.string() })).handler(() => undefined)));
+
+// route() chains share the inferred path params across verbs
+router
+  .route('/teams/:teamId')
+  .get(route({}), (req) => {
+    expectType<string>(req.params.teamId);
+  })
+  .patch(route({ body: z.object({ name: z.string() }) }), (req) => {
+    expectType<string>(req.params.teamId);
+    expectType<{ name: string }>(req.body);
+  });
+
+expectError(router.route('/teams/:teamId').delete(route({ params: z.object({ id: z.string() }) })));
+
+router.all('/anything/:id', route({}), (req) => {
+  expectType<string>(req.params.id);
+});
@@ -1,6 +1,7 @@
 import { expectType, expectError, expectAssignable } from 'tsd';
 import { z } from 'zod';
-import { route, TypedRequest, TypedResponse, TypedHandler, createTypedRouter, InferBody, InferQuery, InferParams, InferResponses } from '../../src';
+import type { Response } from 'express';
+import { route, TypedRequest, TypedResponse, TypedHandler, createTypedRouter, InferBody, InferQuery, InferParams, InferResponses, InferHeaders, InferCookies, InferContext, InferBodyInput, InferQueryInput, InferResponseForStatus, InferResponseOutputForStatus, UploadedFile, defineGuard, defineMiddleware, typedRoute, mergeRoutes } from '../../src';
 
 const userSchema = z.object({ email: z.string().email(), name: z.string() });
 const responseSchemas = { 201: z.object({ id: z.string(), email: z.string() }) } as const;
@@ -38,3 +39,227 @@ const handler: TypedHandler<
 };
 
 router.post('/users', userRoute, handler);
+
+// Returned results are checked against the declared response schemas
+router.post('/users/returned', userRoute, async (req) => {
+  return { status: 201, body: { id: 'abc', email: req.body.email } };
+});
+
+expectError(
+  router.post('/users/wrong-status', userRoute, async () => {
+    return { status: 200, body: { id: 'abc', email: 'x@example.com' } };
+  })
+);
+
+expectError(
+  router.post('/users/wrong-body', userRoute, () => ({ status: 201, body: { id: 1, email: 'x@example.com' } }))
+);
+
+// Header and cookie schemas type req.headers and req.cookies
+const sessionRoute = route({
+  headers: z.object({ 'x-api-version': z.coerce.number() }),
+  cookies: z.object({ session: z.string() }),
+});
+
+expectType<{ 'x-api-version': number }>(null as any as InferHeaders<typeof sessionRoute>);
+expectType<{ session: string }>(null as any as InferCookies<typeof sessionRoute>);
+
+router.get('/session', sessionRoute, (req) => {
+  expectType<number>(req.headers['x-api-version']);
+  expectType<string | undefined>(req.headers['content-type']);
+  expectType<string>(req.cookies.session);
+});
+
+// Response headers declared per status type res.set() and returned results
+const createdRoute = route({
+  response: {
+    201: { body: z.object({ id: z.string() }), headers: z.object({ Location: z.string() }) },
+    429: z.object({ error: z.string() }),
+  },
+});
+
+router.post('/created', createdRoute, (_req, res) => {
+  res.status(201).set('Location', '/created/1').json({ id: '1' });
+  res.set('X-Request-Id', 'abc');
+  expectError(res.status(201).set('Location', 1));
+});
+
+router.post('/created/returned', createdRoute, () => ({
+  status: 201,
+  body: { id: '1' },
+  headers: { Location: '/created/1' },
+}));
+
+expectError(router.post('/created/missing-header', createdRoute, () => ({ status: 201, body: { id: '1' } })));
+
+// Non-JSON responses expose send(), sendStatus(), end(), redirect() and sendFile() only where declared
+const downloadRoute = route({
+  response: {
+    200: { content: 'binary', contentType: 'application/pdf' },
+    204: { content: 'empty' },
+    302: { content: 'empty' },
+    404: z.object({ error: z.string() }),
+  },
+});
+
+router.get('/download', downloadRoute, (_req, res) => {
+  res.status(200).sendFile('/tmp/report.pdf');
+  res.status(200).send(Buffer.from('pdf'));
+  res.sendStatus(204);
+  res.status(204).end();
+  res.redirect('/elsewhere');
+  res.status(404).json({ error: 'Not found' });
+
+  expectError(res.status(404).end());
+  expectError(res.status(404).sendFile('/tmp/report.pdf'));
+  expectError(res.sendStatus(404));
+  expectError(res.status(200).json({ error: 'Not found' }));
+});
+
+router.get('/download/returned', downloadRoute, () => ({ status: 204 }));
+
+const jsonOnlyRoute = route({ response: { 200: z.object({ id: z.string() }) } });
+
+router.get('/json-only', jsonOnlyRoute, (_req, res) => {
+  expectError(res.redirect('/elsewhere'));
+  expectError(res.sendFile('/tmp/report.pdf'));
+});
+
+// Bodies keyed by media type infer a union across media types
+const commentRoute = route({
+  body: {
+    'application/json': z.object({ text: z.string(), notify: z.boolean() }),
+    'application/x-www-form-urlencoded': z.object({ text: z.string() }),
+  },
+});
+
+expectType<{ text: string; notify: boolean } | { text: string }>(null as any as InferBody<typeof commentRoute>);
+
+// File schemas type req.files
+const uploadRoute = route({
+  body: z.object({ title: z.string() }),
+  files: { photo: { required: true }, thumbnail: {}, attachments: { multiple: true } },
+});
+
+router.post('/uploads', uploadRoute, (req) => {
+  expectType<UploadedFile>(req.files.photo);
+  expectType<UploadedFile | undefined>(req.files.thumbnail);
+  expectType<UploadedFile[]>(req.files.attachments);
+  expectType<{ title: string }>(req.body);
+});
+
+// Guards add their context to the request and their failure responses to the route
+const sessionGuard = defineGuard({
+  name: 'session',
+  responses: { 401: z.object({ error: z.string() }) },
+  check: async (req, deny) => {
+    expectError(deny(403, { error: 'forbidden' }));
+    expectError(deny(401, { message: 'wrong shape' }));
+
+    return req.get('authorization') ? { user: { id: 'u1' }, scopes: ['read'] } : deny(401, { error: 'no session' });
+  },
+});
+
+const guardedRoute = route({ guards: [sessionGuard], response: { 200: z.object({ id: z.string() }) } });
+
+expectType<{ user: { id: string }; scopes: string[] }>(null as any as InferContext<typeof guardedRoute>);
+
+router.get('/session', guardedRoute, (req, res) => {
+  expectType<{ id: string }>(req.user);
+  expectType<string[]>(req.scopes);
+  res.status(401).json({ error: 'expired' });
+});
+
+router.get('/no-session', route({}), (req) => {
+  expectError(req.scopes.length);
+});
+
+// Typed middleware accumulates into req.ctx, alongside guard context
+const tenantMiddleware = defineMiddleware({ provide: (req) => ({ tenant: req.get('x-tenant') ?? 'public' }) });
+const noopMiddleware = defineMiddleware({ provide: () => ({}) });
+const openGuard = defineGuard({ name: 'open', check: () => ({}) });
+
+const contextRoute = route({ guards: [openGuard, sessionGuard], use: [noopMiddleware, tenantMiddleware] });
+
+router.get('/context', contextRoute, (req) => {
+  expectType<string>(req.ctx.tenant);
+  expectType<{ id: string }>(req.user);
+});
+
+typedRoute()
+  .use(tenantMiddleware)
+  .use(defineMiddleware({ provide: async () => ({ requestId: 'r1' }) }))
+  .handler((req) => {
+    expectType<string>(req.ctx.tenant);
+    expectType<string>(req.ctx.requestId);
+    expectError(req.ctx.missing);
+  });
+
+// Composed routes keep inference: object schemas merge deeply and response maps are unioned
+const paginationFragment = route({
+  query: z.object({ page: z.number(), filter: z.object({ status: z.string() }) }),
+  response: { 500: z.object({ error: z.string() }) },
+});
+const composedRoute = mergeRoutes(
+  paginationFragment,
+  route({
+    query: z.object({ filter: z.object({ owner: z.string().optional() }) }),
+    body: z.object({ name: z.string() }),
+    response: { 200: z.object({ id: z.string() }) },
+  })
+);
+
+expectType<{ name: string }>(null as any as InferBody<typeof composedRoute>);
+expectAssignable<{ page: number; filter: { status: string; owner?: string | undefined } }>(
+  null as any as InferQuery<typeof composedRoute>
+);
+expectType<readonly (200 | 500)[]>(null as any as readonly (keyof InferResponses<typeof composedRoute>)[]);
+
+router.post('/composed', composedRoute, (req, res) => {
+  expectType<string>(req.query.filter.status);
+  expectType<string | undefined>(req.query.filter.owner);
+  res.status(500).json({ error: 'oops' });
+  expectError(res.status(404).json({ error: 'missing' }));
+});
+
+typedRoute()
+  .extend(paginationFragment)
+  .body(z.object({ name: z.string() }))
+  .handler((req, res) => {
+    expectType<number>(req.query.page);
+    expectType<{ name: string }>(req.body);
+    expectError(res.status(200).json({}));
+  });
+
+// Typed responses can still be handed to plain Express middleware
+expectAssignable<Response>(
+  null as any as TypedResponse<{ 201: z.ZodObject<{ id: z.ZodString }>; 204: { content: 'empty' } }>
+);
+expectAssignable<Response>(null as any as TypedResponse<{ 200: { content: 'binary' } }>);
+
+// Input utilities describe what callers send, output utilities what handlers read
+const coercedRoute = route({
+  query: z.object({ page: z.coerce.number(), size: z.number().default(20) }),
+  body: z.object({ at: z.string().transform((value) => new Date(value)) }),
+  response: { 200: z.object({ at: z.date().transform((date) => date.toISOString()) }) },
+});
+
+expectType<{ at: Date }>(null as any as InferBody<typeof coercedRoute>);
+expectType<{ at: string }>(null as any as InferBodyInput<typeof coercedRoute>);
+expectType<{ page: number; size?: number | undefined }>(null as any as InferQueryInput<typeof coercedRoute>);
+expectType<{ at: Date }>(null as any as InferResponseForStatus<InferResponses<typeof coercedRoute>, 200>);
+expectType<{ at: string }>(null as any as InferResponseOutputForStatus<InferResponses<typeof coercedRoute>, 200>);
+
+typedRoute()
+  .query(z.object({ page: z.coerce.number() }))
+  .response(200, z.object({ at: z.date().transform((date) => date.toISOString()) }))
+  .handler((req) => {
+    expectType<number>(req.query.page);
+    return { status: 200, body: { at: new Date() } };
+  });
+
+// The Deprecation header of a versioned route needs a date
+route({ meta: { deprecated: true } });
+route({ meta: { version: '1', deprecated: new Date('2026-01-01') } });
+expectError(route({ meta: { version: '1', deprecated: true } }));
+expectError(typedRoute().meta({ version: '1', deprecated: true }));
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { compileValidator, createTypedRouter, route, typedRoute } from '../../src';
+
+const Role = z.enum(['admin', 'member']);
+
+const cases: Array<[string, z.ZodTypeAny, unknown[]]> = [
+  [
+    'strings with checks',
+    z.string().min(2).max(5).regex(/^[a-z]+$/g).startsWith('a'),
+    ['abc', 'a', 'abcdef', 'aBc', 'bcd', 42, undefined],
+  ],
+  ['string formats', z.string().email(), ['ada@example.com', 'not an email', '']],
+  [
+    'numbers with bounds',
+    z.number().int().positive().max(10),
+    [1, 10, 0, 11, 1.5, NaN, Infinity, '5'],
+  ],
+  ['finite numbers', z.number().finite(), [1.5, Infinity, -Infinity]],
+  ['multiples', z.number().multipleOf(0.1), [0.3, 0.35]],
+  ['enums and literals', z.union([Role, z.literal(7), z.null()]), ['admin', 'owner', 7, 8, null, undefined]],
+  [
+    'stripped objects',
+    z.object({ id: z.string(), role: Role.default('member'), tags: z.array(z.string()).max(2).optional() }),
+    [
+      { id: 'u1', extra: true },
+      { id: 'u1', tags: ['a', 'b'], role: 'admin' },
+      { id: 'u1', tags: undefined },
+      { id: 'u1', tags: ['a', 'b', 'c'] },
+      { id: 1 },
+      ['u1'],
+      new Date(),
+      null,
+    ],
+  ],
+  [
+    'strict and passthrough objects',
+    z.union([z.object({ a: z.number() }).strict(), z.object({ b: z.number() }).passthrough()]),
+    [{ a: 1 }, { a: 1, c: 2 }, { b: 1, c: 2 }, { c: 2 }],
+  ],
+  [
+    'nested arrays',
+    z.array(z.object({ n: z.number().nullable() })).min(1).length(2),
+    [[{ n: 1 }, { n: null }], [{ n: 1 }], [{ n: '1' }, { n: 2 }], []],
+  ],
+  [
+    'refinements and transforms',
+    z.object({
+      name: z.string().trim(),
+      count: z.coerce.number(),
+      even: z.number().refine((value) => value % 2 === 0),
+      upper: z.string().transform((value) => value.toUpperCase()),
+    }),
+    [
+      { name: ' ada ', count: '3', even: 2, upper: 'x' },
+      { name: 'ada', count: 'x', even: 3, upper: 'x' },
+    ],
+  ],
+];
+
+describe('compileValidator', () => {
+  it.each(cases)('matches safeParse for %s', (_name, schema, values) => {
+    const validate = compileValidator(schema);
+
+    values.forEach((value) => {
+      expect(validate(value)).toEqual(schema.safeParse(value));
+    });
+  });
+
+  it('only calls Zod for values the compiled checks reject', () => {
+    const schema = z.object({ name: z.string().min(1), tags: z.array(Role).max(2), age: z.number().optional() });
+    const safeParse = vi.spyOn(schema, 'safeParse');
+    const validate = compileValidator(schema);
+
+    expect(validate({ name: 'Ada', tags: ['admin'] })).toEqual({ success: true, data: { name: 'Ada', tags: ['admin'] } });
+    expect(safeParse).not.toHaveBeenCalled();
+
+    expect(validate({ name: '', tags: [] }).success).toBe(false);
+    expect(safeParse).toHaveBeenCalledOnce();
+  });
+
+  it('keeps the key order and defaults of Zod output', () => {
+    const schema = z.object({ b: z.string(), a: z.number().default(1) });
+    const result = compileValidator(schema)({ a: undefined, b: 'x', c: true });
+
+    expect(result).toEqual({ success: true, data: { b: 'x', a: 1 } });
+    expect(result.success && Object.keys(result.data as object)).toEqual(['b', 'a']);
+  });
+});
+
+describe('compiled routes', () => {
+  function buildApp(options: { compile: boolean }) {
+    const router = createTypedRouter(options);
+
+    router.post(
+      '/teams/:teamId/users',
+      route({
+        params: z.object({ teamId: z.string().min(2) }),
+        query: z.object({ notify: z.boolean().default(false), limit: z.number().int().max(10).optional() }),
+        headers: z.object({ 'X-Request-Id': z.string() }),
+        body: z.object({ name: z.string().min(1), role: Role }),
+      }),
+      (req, res) => {
+        res.status(201).json({ params: req.params, query: req.query, body: req.body });
+      }
+    );
+
+    return express().use(express.json(), router);
+  }
+
+  it('validates requests the same way as the default path', async () => {
+    const requests = [
+      { path: '/teams/t1/users?notify=true&limit=3', body: { name: 'Ada', role: 'admin', extra: 1 } },
+      { path: '/teams/t/users?limit=11', body: { name: '', role: 'owner' } },
+      { path: '/teams/t1/users?notify=maybe', body: { name: 'Ada', role: 'member' } },
+    ];
+
+    for (const { path, body } of requests) {
+      const [compiled, plain] = await Promise.all(
+        [true, false].map((compile) =>
+          request(buildApp({ compile })).post(path).set('x-request-id', 'r1').send(body)
+        )
+      );
+
+      expect(compiled?.status).toBe(plain?.status);
+      expect(compiled?.body).toEqual(plain?.body);
+    }
+
+    const created = await request(buildApp({ compile: true }))
+      .post('/teams/t1/users?limit=3')
+      .set('x-request-id', 'r1')
+      .send({ name: 'Ada', role: 'admin', extra: 1 });
+    expect(created.body).toEqual({
+      params: { teamId: 't1' },
+      query: { notify: false, limit: 3 },
+      body: { name: 'Ada', role: 'admin' },
+    });
+  });
+
+  it('can be enabled on a route builder', async () => {
+    const router = createTypedRouter();
+    router.get(
+      '/users',
+      typedRoute()
+        .query(z.object({ page: z.number().int().min(1) }))
+        .response(200, z.object({ page: z.number() }))
+        .compile()
+        .handler((req) => ({ status: 200, body: { page: req.query.page } }))
+    );
+    const app = express().use(router);
+
+    expect((await request(app).get('/users?page=2')).body).toEqual({ page: 2 });
+    expect((await request(app).get('/users?page=0')).status).toBe(400);
+  });
+});
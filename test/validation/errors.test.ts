@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, RequestValidationError, route, typedRoute } from '../../src';
+
+describe('validation error strategies', () => {
+  let app: express.Express;
+  const bodySchema = z.object({ email: z.string().email() });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+  });
+
+  it('responds with RFC 7807 problem details', async () => {
+    const router = createTypedRouter({ validationErrors: 'problem' });
+    router.post('/users', route({ body: bodySchema }), (_req, res) => {
+      res.json({ ok: true });
+    });
+    app.use(router);
+
+    const res = await request(app).post('/users').send({ email: 'nope' });
+
+    expect(res.status).toBe(400);
+    expect(res.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(res.body).toMatchObject({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      instance: '/users',
+      errors: [{ location: 'body' }],
+    });
+  });
+
+  it('forwards a RequestValidationError to the Express error handler', async () => {
+    const router = createTypedRouter({ validationErrors: 'problem' });
+    router.post('/users', route({ body: bodySchema }, { validationErrors: 'next' }), (_req, res) => {
+      res.json({ ok: true });
+    });
+    app.use(router);
+    app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+      expect(err).toBeInstanceOf(RequestValidationError);
+      const { errors } = err as RequestValidationError;
+      res.status(422).json({ locations: errors.map((error) => error.location) });
+    });
+
+    const res = await request(app).post('/users').send({ email: 'nope' });
+
+    expect(res.status).toBe(422);
+    expect(res.body).toEqual({ locations: ['body'] });
+  });
+
+  it('uses a custom formatter set on the builder', async () => {
+    const router = createTypedRouter();
+    router.post(
+      '/users',
+      typedRoute()
+        .body(bodySchema)
+        .onValidationError((errors) => ({
+          status: 422,
+          headers: { 'X-Validation': 'failed' },
+          body: { code: 'INVALID', fields: errors.flatMap((error) => error.issues.map((issue) => issue.path.join('.'))) },
+        }))
+        .handler((_req, res) => {
+          res.json({ ok: true });
+        })
+    );
+    app.use(router);
+
+    const res = await request(app).post('/users').send({ email: 'nope' });
+
+    expect(res.status).toBe(422);
+    expect(res.headers['x-validation']).toBe('failed');
+    expect(res.body).toEqual({ code: 'INVALID', fields: ['email'] });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, generateOpenApiDocument, route, typedRoute } from '../../src';
+
+describe('header and cookie validation', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = express();
+  });
+
+  it('matches header schema keys case-insensitively and exposes parsed values', async () => {
+    const router = createTypedRouter();
+
+    router.get(
+      '/reports',
+      route({ headers: z.object({ 'X-Api-Version': z.coerce.number().int(), 'x-tenant': z.string().optional() }) }),
+      (req, res) => {
+        res.json({ version: req.headers['X-Api-Version'], tenant: req.headers['x-tenant'] ?? null });
+      }
+    );
+
+    app.use(router);
+
+    const good = await request(app).get('/reports').set('x-api-version', '2').set('X-Tenant', 'acme');
+    expect(good.status).toBe(200);
+    expect(good.body).toEqual({ version: 2, tenant: 'acme' });
+
+    const bad = await request(app).get('/reports').set('X-Api-Version', 'two');
+    expect(bad.status).toBe(400);
+    expect(bad.body.details[0].location).toBe('headers');
+  });
+
+  it('parses cookies from the Cookie header', async () => {
+    const router = createTypedRouter();
+
+    router.get('/me', route({ cookies: z.object({ session: z.string().min(1), theme: z.enum(['light', 'dark']).default('light') }) }), (req, res) => {
+      res.json(req.cookies);
+    });
+
+    app.use(router);
+
+    const good = await request(app).get('/me').set('Cookie', 'session=abc%20123; other=1');
+    expect(good.status).toBe(200);
+    expect(good.body).toEqual({ session: 'abc 123', theme: 'light' });
+
+    const missing = await request(app).get('/me');
+    expect(missing.status).toBe(400);
+    expect(missing.body.details[0].location).toBe('cookies');
+  });
+
+  it('prefers cookies already parsed by earlier middleware', async () => {
+    const router = createTypedRouter();
+
+    app.use((req, _res, next) => {
+      req.cookies = { session: 'from-parser' };
+      next();
+    });
+
+    router.get('/me', route({ cookies: z.object({ session: z.string() }) }), (req, res) => {
+      res.json({ session: req.cookies.session });
+    });
+
+    app.use(router);
+
+    const response = await request(app).get('/me').set('Cookie', 'session=from-header');
+    expect(response.body).toEqual({ session: 'from-parser' });
+  });
+
+  it('supports headers and cookies on the route builder', async () => {
+    const router = createTypedRouter();
+
+    const getProfile = typedRoute()
+      .headers(z.object({ authorization: z.string().startsWith('Bearer ') }))
+      .cookies(z.object({ locale: z.string() }))
+      .handler((req, res) => {
+        res.json({ token: req.headers.authorization.slice(7), locale: req.cookies.locale });
+      });
+
+    router.get('/profile', getProfile);
+    app.use(router);
+
+    const response = await request(app).get('/profile').set('Authorization', 'Bearer t0k3n').set('Cookie', 'locale=en');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ token: 't0k3n', locale: 'en' });
+  });
+
+  it('documents header and cookie parameters', () => {
+    const router = createTypedRouter();
+
+    router.get(
+      '/reports',
+      route({ headers: z.object({ 'X-Api-Version': z.string() }), cookies: z.object({ session: z.string().optional() }) }),
+      (_req, res) => {
+        res.end();
+      }
+    );
+
+    const document = generateOpenApiDocument(router, { info: { title: 'Reports', version: '1.0.0' } });
+
+    expect(document.paths['/reports']?.get?.parameters).toEqual([
+      { name: 'X-Api-Version', in: 'header', required: true, schema: { type: 'string' } },
+      { name: 'session', in: 'cookie', required: false, schema: { type: 'string' } },
+    ]);
+  });
+});
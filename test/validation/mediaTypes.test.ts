@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, generateOpenApiDocument, route, UnsupportedMediaTypeError } from '../../src';
+
+describe('request bodies keyed by media type', () => {
+  let app: express.Express;
+
+  const createComment = route({
+    body: {
+      'application/json': z.object({ text: z.string(), notify: z.boolean().default(false) }),
+      'application/x-www-form-urlencoded': z.object({ text: z.string(), notify: z.enum(['on', 'off']).optional() }),
+    },
+  });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json(), express.urlencoded({ extended: true }), express.text({ type: 'application/xml' }));
+  });
+
+  it('validates the body against the schema for its Content-Type', async () => {
+    const router = createTypedRouter();
+
+    router.post('/comments', createComment, (req, res) => {
+      res.json(req.body);
+    });
+
+    app.use(router);
+
+    const json = await request(app).post('/comments').send({ text: 'Hello' });
+    expect(json.status).toBe(200);
+    expect(json.body).toEqual({ text: 'Hello', notify: false });
+
+    const form = await request(app).post('/comments').type('form').send('text=Hi&notify=on');
+    expect(form.status).toBe(200);
+    expect(form.body).toEqual({ text: 'Hi', notify: 'on' });
+
+    const invalidForm = await request(app).post('/comments').type('form').send('text=Hi&notify=yes');
+    expect(invalidForm.status).toBe(400);
+  });
+
+  it('responds with 415 for undeclared media types', async () => {
+    const router = createTypedRouter();
+    const problemRouter = createTypedRouter({ validationErrors: 'problem' });
+
+    router.post('/comments', createComment, (_req, res) => {
+      res.end();
+    });
+    problemRouter.post('/problem/comments', createComment, (_req, res) => {
+      res.end();
+    });
+
+    app.use(router, problemRouter);
+
+    const xml = await request(app).post('/comments').set('Content-Type', 'application/xml').send('<text>Hi</text>');
+    expect(xml.status).toBe(415);
+    expect(xml.body).toEqual({
+      error: 'Unsupported Media Type',
+      supported: ['application/json', 'application/x-www-form-urlencoded'],
+    });
+
+    const problem = await request(app)
+      .post('/problem/comments')
+      .set('Content-Type', 'application/xml')
+      .send('<text>Hi</text>');
+    expect(problem.status).toBe(415);
+    expect(problem.headers['content-type']).toContain('application/problem+json');
+    expect(problem.body).toMatchObject({ title: 'Unsupported Media Type', status: 415 });
+  });
+
+  it('forwards UnsupportedMediaTypeError with the next strategy', async () => {
+    const router = createTypedRouter({ validationErrors: 'next' });
+
+    router.post('/comments', createComment, (_req, res) => {
+      res.end();
+    });
+
+    app.use(router);
+    app.use((err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      const error = err as UnsupportedMediaTypeError;
+      res.status(err instanceof UnsupportedMediaTypeError ? error.status : 500).json({ contentType: error.contentType });
+    });
+
+    const response = await request(app).post('/comments').set('Content-Type', 'application/xml').send('<text/>');
+    expect(response.status).toBe(415);
+    expect(response.body).toEqual({ contentType: 'application/xml' });
+  });
+
+  it('documents every declared media type', () => {
+    const router = createTypedRouter();
+
+    router.post('/comments', createComment, (_req, res) => {
+      res.end();
+    });
+
+    const requestBody = generateOpenApiDocument(router, { info: { title: 'Comments', version: '1.0.0' } }).paths[
+      '/comments'
+    ]?.post?.requestBody;
+
+    expect(requestBody?.required).toBe(true);
+    expect(Object.keys(requestBody?.content ?? {})).toEqual(['application/json', 'application/x-www-form-urlencoded']);
+  });
+});
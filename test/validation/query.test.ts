@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { createTypedRouter, route } from '../../src';
+
+const searchQuery = z.object({
+  q: z.string(),
+  tags: z.array(z.string()).default([]),
+  page: z.number().int().min(1).default(1),
+  ids: z.array(z.number()).optional(),
+  exact: z.boolean().optional(),
+  since: z.date().optional(),
+  filter: z.object({ minPrice: z.number().optional(), inStock: z.boolean().optional() }).optional(),
+  sort: z.union([z.literal(1), z.literal(-1)]).optional(),
+});
+
+function createApp(queryParser?: 'simple'): express.Express {
+  const app = express();
+  if (queryParser) app.set('query parser', queryParser);
+
+  const router = createTypedRouter();
+  router.get('/search', route({ query: searchQuery }), (req, res) => {
+    res.json({ ...req.query, since: req.query.since?.toISOString() });
+  });
+  app.use(router);
+
+  return app;
+}
+
+describe('query coercion', () => {
+  it('normalizes single and repeated keys into arrays', async () => {
+    const app = createApp();
+
+    const single = await request(app).get('/search?q=shoes&tags=red');
+    expect(single.body.tags).toEqual(['red']);
+
+    const repeated = await request(app).get('/search?q=shoes&tags=red&tags=blue&ids=1&ids=2');
+    expect(repeated.body).toMatchObject({ tags: ['red', 'blue'], ids: [1, 2] });
+  });
+
+  it('coerces numbers, booleans, dates, literals and nested objects', async () => {
+    const response = await request(createApp()).get(
+      '/search?q=shoes&page=3&exact=false&since=2024-01-02T00:00:00.000Z&filter[minPrice]=10.5&filter[inStock]&sort=-1'
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      q: 'shoes',
+      tags: [],
+      page: 3,
+      exact: false,
+      since: '2024-01-02T00:00:00.000Z',
+      filter: { minPrice: 10.5, inStock: true },
+      sort: -1,
+    });
+  });
+
+  it('expands bracketed keys left flat by the simple query parser', async () => {
+    const response = await request(createApp('simple')).get('/search?q=shoes&filter[minPrice]=5&tags[]=red');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ filter: { minPrice: 5 }, tags: ['red'] });
+  });
+
+  it('ignores bracketed keys that would reach object prototypes', async () => {
+    const app = createApp('simple');
+
+    for (const key of ['__proto__[polluted]', 'filter[__proto__][polluted]', 'constructor[prototype][polluted]']) {
+      const response = await request(app).get(`/search?q=shoes&${key}=yes`);
+      expect(response.status).toBe(200);
+    }
+
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(Object.prototype).not.toHaveProperty('polluted');
+  });
+
+  it('reports values that cannot be coerced', async () => {
+    const response = await request(createApp()).get('/search?q=shoes&page=two&exact=maybe&ids=1&ids=x');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual([
+      {
+        location: 'query',
+        issues: [
+          { code: 'custom', path: ['page'], message: 'Expected number, received "two"' },
+          { code: 'custom', path: ['ids', 1], message: 'Expected number, received "x"' },
+          { code: 'custom', path: ['exact'], message: 'Expected boolean, received "maybe"' },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps z.coerce schemas working', async () => {
+    const app = express();
+    const router = createTypedRouter();
+
+    router.get('/items', route({ query: z.object({ limit: z.coerce.number().max(50) }) }), (req, res) => {
+      res.json(req.query);
+    });
+    app.use(router);
+
+    const response = await request(app).get('/items?limit=20');
+    expect(response.body).toEqual({ limit: 20 });
+  });
+});